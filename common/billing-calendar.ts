@@ -0,0 +1,148 @@
+// Dependency of `dues.ts`.  Decides when members are first charged, so that
+// the join form shows the same date the signup worker bills on.
+
+/**
+ * When in the month dues are charged.
+ */
+export interface BillingCalendar {
+  // Day of the month, from 1 to 31.  In shorter months, dues are charged on
+  // the last day instead.
+  anchorDay: number;
+  // Hour of the day, from 0 to 23, in `timeZone`.
+  anchorHour: number;
+  // IANA time zone name, e.g. `America/New_York`.
+  timeZone: string;
+  // The least notice a new member gets before their first charge.  Members who
+  // sign up closer than this to an anchor are first charged on the next one.
+  minimumLeadDays: number;
+  // Whether members are charged for the part of a month between approval and
+  // their first anchor, rather than getting it free.
+  prorate: boolean;
+}
+
+/**
+ * The union's calendar: dues are charged on the 1st of each month.
+ */
+export const BILLING_CALENDAR: BillingCalendar = {
+  anchorDay: 1,
+  // On the 1st on invoices whether the Stripe account is in UTC (a likely
+  // default), Eastern (local 0400) or Pacific time (local 0100).
+  anchorHour: 8,
+  timeZone: 'UTC',
+  minimumLeadDays: 0,
+  prorate: false,
+};
+
+/**
+ * How a new member's subscription starts.
+ */
+export interface FirstCharge {
+  // The billing anchor that dues are first charged on.
+  date: Date;
+  // For Stripe's `proration_behavior` when creating the subscription.
+  prorationBehavior: 'none' | 'create_prorations';
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * @returns The first billing anchor which is at least the calendar's lead time
+ *     after `now`
+ */
+export function getFirstCharge(
+  now: Date,
+  calendar = BILLING_CALENDAR,
+): FirstCharge {
+  const earliest = now.getTime() + calendar.minimumLeadDays * DAY_MS;
+  let { year, month } = getZonedDate(now, calendar.timeZone);
+  let anchor = getBillingAnchorFor(year, month, calendar);
+  while (anchor.getTime() <= earliest) {
+    month++;
+    if (month === 12) {
+      month = 0;
+      year++;
+    }
+    anchor = getBillingAnchorFor(year, month, calendar);
+  }
+  return {
+    date: anchor,
+    prorationBehavior: calendar.prorate ? 'create_prorations' : 'none',
+  };
+}
+
+/**
+ * @param month Zero-indexed, like `getUTCMonth()`
+ * @returns The billing anchor in the given month
+ */
+export function getBillingAnchorFor(
+  year: number,
+  month: number,
+  calendar = BILLING_CALENDAR,
+): Date {
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return zonedTimeToDate(
+    year,
+    month,
+    Math.min(calendar.anchorDay, daysInMonth),
+    calendar.anchorHour,
+    calendar.timeZone,
+  );
+}
+
+/**
+ * The date in the given time zone at the given instant.
+ */
+function getZonedDate(
+  date: Date,
+  timeZone: string,
+): { year: number; month: number; day: number; hour: number; minute: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month') - 1,
+    day: part('day'),
+    // Some engines show midnight as 24:00.
+    hour: part('hour') % 24,
+    minute: part('minute'),
+  };
+}
+
+/**
+ * How far ahead of UTC the time zone is at the given (whole minute) instant, in
+ * milliseconds.
+ */
+function getOffset(date: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedDate(date, timeZone);
+  return Date.UTC(year, month, day, hour, minute) - date.getTime();
+}
+
+/**
+ * The instant at which it's the given hour in the given time zone.  An hour
+ * skipped by a daylight saving change is taken to be the hour after.
+ */
+function zonedTimeToDate(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  timeZone: string,
+): Date {
+  const wanted = Date.UTC(year, month, day, hour);
+  const first = wanted - getOffset(new Date(wanted), timeZone);
+  // Differs from the first guess if a daylight saving change lies between.
+  const second = wanted - getOffset(new Date(first), timeZone);
+  if (getZonedDate(new Date(second), timeZone).hour === hour) {
+    return new Date(second);
+  }
+  return new Date(Math.max(first, second));
+}
@@ -0,0 +1,44 @@
+// Dependency of the signup worker and the login worker, whose public forms can
+// require a Cloudflare Turnstile challenge to be solved before they do any
+// work.
+
+const SITEVERIFY_URL =
+  'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+// The form field Turnstile puts its token in.
+export const CHALLENGE_FIELD = 'cf-turnstile-response';
+
+/**
+ * Check the token of a solved challenge with Turnstile.  Each token can only
+ * be verified once.
+ *
+ * @param secretKey Turnstile's secret key.  If empty, challenges aren't
+ *     required and every request passes
+ * @param ip The IP address of the client which solved the challenge, if known
+ */
+export async function verifyChallenge(
+  token: string | null | undefined,
+  secretKey: string | undefined,
+  ip?: string | null,
+): Promise<boolean> {
+  if (!secretKey) {
+    return true;
+  }
+  if (!token) {
+    return false;
+  }
+  const body = new FormData();
+  body.set('secret', secretKey);
+  body.set('response', token);
+  if (ip) {
+    body.set('remoteip', ip);
+  }
+  try {
+    const response = await fetch(SITEVERIFY_URL, { method: 'POST', body });
+    const result: { success?: boolean } = await response.json();
+    return result.success === true;
+  } catch (e) {
+    console.error(e);
+    return false;
+  }
+}
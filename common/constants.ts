@@ -1,5 +0,0 @@
-export const CARD_PROCESSING_FEE = 0.029;
-export const FRIENDLY_CARD_PROCESSING_FEE = "2.9%";
-
-export const INITIATION_FEE_CENTS = 500;
-export const FRIENDLY_INITIATION_FEE = "$5"
@@ -0,0 +1,114 @@
+// Dependency of the join form, the signup worker and the login worker.
+// Everything that differs between the currencies members can pay in belongs
+// here, so that a currency is either fully supported or rejected.
+
+/**
+ * The Stripe products that each part of a member's dues is billed as.
+ */
+export interface DuesProducts {
+  dues: string;
+  initiationFee: string;
+  cardFee: string;
+}
+
+// The vars which currencies billed as the original, US dollar, products use.
+const DEFAULT_PRODUCT_VARS = {
+  dues: 'DUES_PRODUCT_ID',
+  initiationFee: 'INITIATION_FEE_PRODUCT_ID',
+  cardFee: 'CARD_FEE_PRODUCT_ID',
+};
+
+/**
+ * How members paying in one currency are charged.  Amounts are in the
+ * currency's smallest unit (cents).
+ */
+export interface CurrencyConfig {
+  initiationFeeCents: number;
+  // The share of dues added for members paying by card, to cover the card
+  // processor's fee.
+  cardProcessingFee: number;
+  // The Worker vars holding the Stripe products that each part of a member's
+  // dues is billed as, so that dev and test can use test-mode products.
+  productVars: Record<keyof DuesProducts, string>;
+  // The bank debit available in this currency, if any.
+  bankPaymentMethodType?: string;
+  // Shown before amounts, e.g. `CA$` so that Canadian members can tell their
+  // dues apart from US dollars.
+  symbol: string;
+}
+
+/**
+ * Every currency members can pay in, by its lowercase ISO 4217 code as used by
+ * Stripe.
+ */
+export const CURRENCIES: Record<string, CurrencyConfig> = {
+  usd: {
+    initiationFeeCents: 500,
+    cardProcessingFee: 0.029,
+    productVars: DEFAULT_PRODUCT_VARS,
+    bankPaymentMethodType: 'us_bank_account',
+    symbol: '$',
+  },
+  cad: {
+    // What members paying in Canadian dollars have always been charged, until
+    // the union decides on a fee for them.
+    initiationFeeCents: 500,
+    cardProcessingFee: 0.029,
+    productVars: DEFAULT_PRODUCT_VARS,
+    bankPaymentMethodType: 'acss_debit',
+    symbol: 'CA$',
+  },
+};
+
+/**
+ * @throws Error if members can't pay in the currency
+ */
+export function getCurrency(currency: string): CurrencyConfig {
+  const config = CURRENCIES[currency];
+  if (!config) {
+    throw new Error(`Unsupported currency: ${currency}`);
+  }
+  return config;
+}
+
+/**
+ * The Stripe products to bill members paying in the given currency as.
+ *
+ * @param vars The Worker's vars, i.e. its `env`, or `globalThis` for workers in
+ *     the service worker format
+ * @throws Error if any of the products' vars isn't set
+ */
+export function getProducts(currency: string, vars: object): DuesProducts {
+  const { productVars } = getCurrency(currency);
+  const values = vars as Record<string, unknown>;
+  const product = (part: keyof DuesProducts): string => {
+    const id = values[productVars[part]];
+    if (typeof id !== 'string' || !id) {
+      throw new Error(
+        `${productVars[part]} must be set to a Stripe product ID.`,
+      );
+    }
+    return id;
+  };
+  return {
+    dues: product('dues'),
+    initiationFee: product('initiationFee'),
+    cardFee: product('cardFee'),
+  };
+}
+
+/**
+ * Format an amount for display, e.g. `$10.29` or `CA$10.29`.
+ */
+export function formatCents(cents: number, currency: string): string {
+  return `${getCurrency(currency).symbol}${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * The Stripe payment method types that members paying in the given currency
+ * can choose from, bank debit first.
+ */
+export function getPaymentMethodTypes(currency: string): string[] {
+  const bank = getCurrency(currency).bankPaymentMethodType;
+  return bank ? [bank, 'card'] : ['card'];
+}
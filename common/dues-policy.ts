@@ -0,0 +1,140 @@
+// Dependency of `dues.ts`.  The rules that decide how much each member pays,
+// kept as data so that changes to them are reviewed like the bylaws they come
+// from, and every version that was ever in force stays on record.
+
+// Subscription metadata key for the version of the policy which set the
+// member's current dues.
+export const DUES_POLICY_VERSION = 'dues-policy-version';
+
+/**
+ * What a rule applies to.  A rule with no conditions applies to everyone, and
+ * each condition lists the values it matches.
+ */
+export interface DuesConditions {
+  // As in the join form's `employment-type` field.
+  employmentType?: string[];
+  // As recorded in customer metadata, see `membership.ts`.
+  membershipStatus?: string[];
+  currency?: string[];
+}
+
+/**
+ * How the monthly dues of the members it applies to are worked out.
+ */
+export interface DuesRule {
+  // Shown to members, e.g. `1% of total compensation`.
+  description: string;
+  when?: DuesConditions;
+  // The share of annual total compensation paid in dues, in basis points
+  // (hundredths of a percent), so that amounts are worked out exactly.
+  rateBasisPoints: number;
+  // Bounds on monthly dues, in cents, by currency.
+  minimumMonthlyCents?: Record<string, number>;
+  maximumMonthlyCents?: Record<string, number>;
+}
+
+/**
+ * A version of the dues rules, in force from `effectiveFrom` until the next
+ * version.  The first rule which applies to a member decides their dues, so
+ * the last should apply to everyone.
+ */
+export interface DuesPolicy {
+  version: number;
+  // ISO 8601 date.
+  effectiveFrom: string;
+  rules: DuesRule[];
+}
+
+/**
+ * Every version of the policy, oldest first.  Add a version rather than
+ * editing one, so that members can always see the rules their dues were set by.
+ */
+export const DUES_POLICIES: DuesPolicy[] = [
+  {
+    version: 1,
+    effectiveFrom: '2021-01-04',
+    rules: [{ description: '1% of total compensation', rateBasisPoints: 100 }],
+  },
+];
+
+/**
+ * The details of a member that their dues depend on.
+ */
+export interface DuesMember {
+  // Annual, in whole units of `currency`.
+  totalComp: number;
+  currency: string;
+  employmentType?: string;
+  membershipStatus?: string;
+}
+
+/**
+ * A member's monthly dues, and why.
+ */
+export interface DuesDecision {
+  policyVersion: number;
+  rule: DuesRule;
+  monthlyDuesCents: number;
+  // Set if the rule's bound, rather than its rate, decided the amount.
+  limit?: 'minimum' | 'maximum';
+}
+
+/**
+ * @returns The policy in force at the given date
+ */
+export function getDuesPolicy(at = new Date()): DuesPolicy {
+  const policy = [...DUES_POLICIES]
+    .reverse()
+    .find(({ effectiveFrom }) => new Date(effectiveFrom) <= at);
+  if (!policy) {
+    throw new Error(`No dues policy in force at ${at.toISOString()}`);
+  }
+  return policy;
+}
+
+/**
+ * @returns Undefined for versions which don't exist
+ */
+export function getDuesPolicyVersion(version: number): DuesPolicy | undefined {
+  return DUES_POLICIES.find((policy) => policy.version === version);
+}
+
+/**
+ * @throws Error if none of the policy's rules apply to the member
+ */
+export function applyDuesPolicy(
+  member: DuesMember,
+  policy = getDuesPolicy(),
+): DuesDecision {
+  const rule = policy.rules.find(({ when }) => matches(member, when));
+  if (!rule) {
+    throw new Error(
+      `Dues policy ${policy.version} has no rule for this member`,
+    );
+  }
+  // Dues are charged in whole units of the currency.
+  const annualDues = Math.floor(
+    (member.totalComp * rule.rateBasisPoints) / 10000,
+  );
+  const monthlyDuesCents = Math.floor(annualDues / 12) * 100;
+  const minimum = rule.minimumMonthlyCents?.[member.currency];
+  const maximum = rule.maximumMonthlyCents?.[member.currency];
+  const decision = { policyVersion: policy.version, rule };
+  if (minimum !== undefined && monthlyDuesCents < minimum) {
+    return { ...decision, monthlyDuesCents: minimum, limit: 'minimum' };
+  }
+  if (maximum !== undefined && monthlyDuesCents > maximum) {
+    return { ...decision, monthlyDuesCents: maximum, limit: 'maximum' };
+  }
+  return { ...decision, monthlyDuesCents };
+}
+
+function matches(member: DuesMember, when: DuesConditions = {}): boolean {
+  const matchesCondition = (condition?: string[], value?: string) =>
+    !condition || (value !== undefined && condition.includes(value));
+  return (
+    matchesCondition(when.employmentType, member.employmentType) &&
+    matchesCondition(when.membershipStatus, member.membershipStatus) &&
+    matchesCondition(when.currency, member.currency)
+  );
+}
@@ -0,0 +1,112 @@
+// Dependency of the join form, which previews a member's dues, the signup
+// worker, which bills them, and the login worker, which re-prices them.  All
+// must use this module so that what a member is shown is exactly what they are
+// charged.
+
+import { getFirstCharge } from './billing-calendar';
+import { getCurrency } from './currencies';
+import {
+  applyDuesPolicy,
+  DuesMember,
+  DuesRule,
+  getDuesPolicy,
+} from './dues-policy';
+
+/**
+ * Everything a new member will be charged.  Amounts are in the smallest unit of
+ * `currency` (cents, for USD).
+ */
+export interface DuesBreakdown {
+  currency: string;
+  // As decided by the dues policy, see `dues-policy.ts`.
+  monthlyDuesCents: number;
+  // The version of the dues policy, and its rule, which decided the dues.
+  policyVersion: number;
+  rule: DuesRule;
+  // Set if the rule's bound, rather than its rate, decided the dues.
+  limit?: 'minimum' | 'maximum';
+  // Covers the card processor's fee, for members paying by card.  Zero
+  // otherwise.
+  monthlyCardFeeCents: number;
+  // What is charged every month: dues plus any card fee.
+  monthlyTotalCents: number;
+  // Charged once, with the first month's dues.
+  initiationFeeCents: number;
+  // When dues are first charged, once the membership has been approved.
+  firstChargeDate: Date;
+  // Whether the time until `firstChargeDate` is charged for, as Stripe's
+  // `proration_behavior`.
+  prorationBehavior: 'none' | 'create_prorations';
+}
+
+/**
+ * @param paymentMethod The Stripe payment method type, e.g. `card`
+ * @param now For testing
+ * @throws Error if members can't pay in the currency
+ */
+export function calculateDues(
+  member: DuesMember,
+  paymentMethod: string,
+  now = new Date(),
+): DuesBreakdown {
+  const { currency } = member;
+  const decision = applyDuesPolicy(member, getDuesPolicy(now));
+  const { monthlyDuesCents } = decision;
+  const monthlyCardFeeCents = calculateCardFee(
+    monthlyDuesCents,
+    currency,
+    paymentMethod,
+  );
+  const firstCharge = getFirstCharge(now);
+  return {
+    currency,
+    monthlyDuesCents,
+    policyVersion: decision.policyVersion,
+    rule: decision.rule,
+    limit: decision.limit,
+    monthlyCardFeeCents,
+    monthlyTotalCents: monthlyDuesCents + monthlyCardFeeCents,
+    initiationFeeCents: getCurrency(currency).initiationFeeCents,
+    firstChargeDate: firstCharge.date,
+    prorationBehavior: firstCharge.prorationBehavior,
+  };
+}
+
+/**
+ * The monthly card fee for a member paying the given dues, which is zero unless
+ * they pay by card.  Used to recalculate the fee whenever a member changes how
+ * they pay.
+ *
+ * @param paymentMethod The Stripe payment method type, e.g. `card`
+ */
+export function calculateCardFee(
+  monthlyDuesCents: number,
+  currency: string,
+  paymentMethod: string,
+): number {
+  return paymentMethod === 'card'
+    ? Math.floor(monthlyDuesCents * getCurrency(currency).cardProcessingFee)
+    : 0;
+}
+
+// A threshold below which we think someone may have made a mistake (entered
+// monthly income, copied the monthly dues value and pasted it back into the
+// income box, etc) rather than entered their annual income.
+const POTENTIAL_ERROR_TOTAL_COMP_THRESHOLD = 6000;
+
+/**
+ * Catch total compensation which is probably not annual, whether it's entered
+ * on the join form or updated later, so members aren't under-charged by
+ * mistake.
+ *
+ * @returns What's wrong with the total compensation, if it looks mistaken
+ */
+export function checkAnnualTotalComp(totalComp: number): string | undefined {
+  if (totalComp < POTENTIAL_ERROR_TOTAL_COMP_THRESHOLD) {
+    return (
+      'Enter your annual total compensation. If you did so and still receive this error, please ' +
+      'email contact@alphabetworkersunion.org for help.'
+    );
+  }
+  return undefined;
+}
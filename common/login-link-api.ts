@@ -0,0 +1,47 @@
+// Dependency of the signup worker, which asks the login worker to email login
+// links to applicants who are already members, and of the login worker.  Those
+// requests come from another server, so instead of the login form's origin
+// check, rate limit by IP address and challenge, they're authenticated with a
+// key both workers have as a secret.
+
+export const LOGIN_LINK_API_PATH = '/api/login-link';
+
+/**
+ * @param loginUrl The login worker's login page, which the link leads to
+ */
+export function makeLoginLinkRequest(
+  loginUrl: string,
+  apiKey: string,
+  email: string,
+): Request {
+  const body = new FormData();
+  body.set('email', email);
+  return new Request(new URL(LOGIN_LINK_API_PATH, loginUrl).toString(), {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${apiKey}` },
+    body,
+  });
+}
+
+/**
+ * Whether the request was sent with the key.
+ *
+ * @param apiKey If empty, no request is
+ */
+export function isAuthorizedLoginLinkRequest(
+  request: Request,
+  apiKey: string | undefined,
+): boolean {
+  const expected = `Bearer ${apiKey}`;
+  const authorization = request.headers.get('Authorization');
+  if (!apiKey || authorization?.length !== expected.length) {
+    return false;
+  }
+  // Compared in constant time, so the key can't be guessed a character at a
+  // time.
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= authorization.charCodeAt(i) ^ expected.charCodeAt(i);
+  }
+  return difference === 0;
+}
@@ -0,0 +1,104 @@
+// Dependency of the signup worker, which keeps each member's status up to date
+// from Stripe webhooks, and the login worker, which shows it to them.
+
+/**
+ * Where a member is in the life of their membership.
+ *
+ * - `payment-setup-incomplete`: applied, but hasn't finished entering payment
+ *   details
+ * - `payment-setup-failed`: applied, but their payment details couldn't be set
+ *   up
+ * - `pending-approval`: waiting for the Membership Committee to review their
+ *   application
+ * - `active`: a member in good standing
+ * - `in-arrears`: a member whose dues payments are failing
+ * - `canceled`: a former member
+ */
+export type MembershipStatus =
+  | 'payment-setup-incomplete'
+  | 'payment-setup-failed'
+  | 'pending-approval'
+  | 'active'
+  | 'in-arrears'
+  | 'canceled';
+
+// Customer metadata keys for the membership status, when it was last changed
+// (as a Unix timestamp), and the ID of the Stripe event which changed it.
+export const MEMBERSHIP_STATUS = 'membership-status';
+export const MEMBERSHIP_STATUS_UPDATED = 'membership-status-updated';
+export const MEMBERSHIP_STATUS_EVENT = 'membership-status-event';
+
+// Customer metadata keys for the Membership Committee's decision on an
+// application, the email of the committee member who made it, and when (as an
+// ISO 8601 date).
+export const COMMITTEE_DECISION = 'committee-decision';
+export const COMMITTEE_DECISION_BY = 'committee-decision-by';
+export const COMMITTEE_DECISION_AT = 'committee-decision-at';
+
+/**
+ * Where a member is in the yearly check that their recorded total compensation
+ * is still right.
+ *
+ * - `prompted`: emailed around the anniversary of their signup, and hasn't
+ *   responded yet
+ * - `confirmed`: confirmed or updated their total compensation since
+ */
+export type CompensationConfirmationStatus = 'prompted' | 'confirmed';
+
+// Customer metadata keys for the yearly compensation check's status, when the
+// member was last emailed, and when they last confirmed (as ISO 8601 dates).
+export const COMPENSATION_CONFIRMATION_STATUS = 'tc-confirmation-status';
+export const COMPENSATION_PROMPTED_AT = 'tc-prompted-at';
+export const COMPENSATION_CONFIRMED_AT = 'tc-confirmed-at';
+
+/**
+ * Where a member's request to pause their dues is.
+ *
+ * - `requested`: waiting for the Membership Committee to review it
+ * - `approved`: collection of dues will pause on the start date
+ * - `rejected`: the committee turned it down
+ * - `paused`: collection of dues is paused until the end date
+ * - `ended`: collection of dues has resumed
+ */
+export type DuesPauseStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'paused'
+  | 'ended';
+
+// Customer metadata keys for the member's latest request to pause their dues:
+// its status, the reason given, the dates it starts and is expected to end (as
+// ISO 8601 dates), and the committee member who decided it and when.
+export const DUES_PAUSE_STATUS = 'dues-pause-status';
+export const DUES_PAUSE_REASON = 'dues-pause-reason';
+export const DUES_PAUSE_START = 'dues-pause-start';
+export const DUES_PAUSE_END = 'dues-pause-end';
+export const DUES_PAUSE_DECISION_BY = 'dues-pause-decision-by';
+export const DUES_PAUSE_DECISION_AT = 'dues-pause-decision-at';
+
+// Customer metadata keys for the reason a member gave for resigning, if any,
+// and when they resigned (as an ISO 8601 date).  Their membership ends at the
+// end of the billing period they resigned in.
+export const RESIGNATION_REASON = 'resignation-reason';
+export const RESIGNED_AT = 'resigned-at';
+
+/**
+ * Where the committee's review of a member's changes to their employment
+ * details is.
+ *
+ * - `requested`: waiting for the Membership Committee to review them
+ * - `approved`: the changes were applied
+ * - `rejected`: the committee turned them down, and the details were kept
+ */
+export type ProfileReviewStatus = 'requested' | 'approved' | 'rejected';
+
+// Customer metadata keys for the status of the latest review, and the
+// committee member who decided it and when (as an ISO 8601 date).
+export const PROFILE_REVIEW_STATUS = 'profile-review-status';
+export const PROFILE_REVIEW_DECISION_BY = 'profile-review-decision-by';
+export const PROFILE_REVIEW_DECISION_AT = 'profile-review-decision-at';
+
+// Customer metadata key for the changes waiting for review, as a JSON object of
+// the new values by field name, e.g. `{"employer":"Google"}`.
+export const PROFILE_REVIEW_CHANGES = 'profile-review-changes';
@@ -0,0 +1,102 @@
+// Dependency of the signup worker and the login worker, which limit how often
+// their public forms can be submitted, so that neither can be scripted to spam
+// inboxes or fill Stripe with junk.
+
+/**
+ * Counts requests in fixed windows of time.  Counts don't need to be exact,
+ * only close enough to stop abuse, so stores without atomic increments will do.
+ */
+export interface CounterStore {
+  /**
+   * @param key Names the counter, and the window it's for
+   * @param ttlSeconds How long the counter must be kept for
+   * @returns The count, including this increment
+   */
+  increment(key: string, ttlSeconds: number): Promise<number>;
+}
+
+/**
+ * The parts of a KV namespace that `KvCounterStore` uses.
+ */
+export interface KvCounterNamespace {
+  get(key: string): Promise<string | null>;
+  put(
+    key: string,
+    value: string,
+    options: { expirationTtl: number },
+  ): Promise<void>;
+}
+
+/**
+ * Keeps counts in Workers KV.  KV is eventually consistent, so requests in
+ * different locations may briefly go uncounted by each other.
+ */
+export class KvCounterStore implements CounterStore {
+  constructor(private readonly namespace: KvCounterNamespace) {}
+
+  async increment(key: string, ttlSeconds: number): Promise<number> {
+    const count = Number((await this.namespace.get(key)) ?? 0) + 1;
+    // KV won't expire keys sooner than a minute.
+    await this.namespace.put(key, String(count), {
+      expirationTtl: Math.max(ttlSeconds, 60),
+    });
+    return count;
+  }
+}
+
+/**
+ * Keeps counts for the life of the object, for tests and local development.
+ */
+export class MemoryCounterStore implements CounterStore {
+  private readonly counts = new Map<string, number>();
+
+  async increment(key: string): Promise<number> {
+    const count = (this.counts.get(key) ?? 0) + 1;
+    this.counts.set(key, count);
+    return count;
+  }
+}
+
+/**
+ * At most `limit` requests every `windowSeconds`.
+ */
+export interface RateLimit {
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * What a rate limit is applied to, e.g. `{ key: 'login-ip:192.0.2.1' }`.
+ * Subjects with no value, like a missing IP address, aren't limited.
+ */
+export interface RateLimitSubject {
+  key: string | null | undefined;
+  rateLimit: RateLimit;
+}
+
+/**
+ * Count a request against each of its subjects.
+ *
+ * @param now For testing
+ * @returns Whether any of the subjects is over its limit
+ */
+export async function isRateLimited(
+  store: CounterStore,
+  subjects: RateLimitSubject[],
+  now = Date.now(),
+): Promise<boolean> {
+  const counts = await Promise.all(
+    subjects.map(async ({ key, rateLimit }) => {
+      if (!key) {
+        return 0;
+      }
+      const window = Math.floor(now / 1000 / rateLimit.windowSeconds);
+      const count = await store.increment(
+        `${key}:${window}`,
+        rateLimit.windowSeconds,
+      );
+      return count - rateLimit.limit;
+    }),
+  );
+  return counts.some((excess) => excess > 0);
+}
@@ -17,17 +17,16 @@ import {
 import { allCountries } from 'country-region-data';
 import { repeat } from 'lit/directives/repeat.js';
 import {
-  CARD_PROCESSING_FEE,
-  FRIENDLY_CARD_PROCESSING_FEE,
-  FRIENDLY_INITIATION_FEE,
-} from '../../common/constants';
+  CURRENCIES,
+  formatCents,
+  getCurrency,
+  getPaymentMethodTypes,
+} from '../../common/currencies';
+import { calculateDues, DuesBreakdown } from '../../common/dues';
 
 import styles from './signup.scss';
 
-import {
-  REQUIRED_FIELDS,
-  FTE_REQUIRED_FIELDS,
-} from '../../signup-worker/src/fields';
+import { FIELDS, isFieldRequired } from '../../signup-worker/src/fields';
 
 const ALPHABET_SUBSIDIARIES = [
   'Google',
@@ -115,6 +114,9 @@ const WORK_EMAIL_SUFFIXES = [
  * Testing ACH:
  * https://stripe.com/docs/ach#testing-ach
  *
+ * Testing Canadian pre-authorized debit:
+ * https://stripe.com/docs/payments/acss-debit/accept-a-payment#test-integration
+ *
  * Testing card:
  * https://stripe.com/docs/testing#cards
  */
@@ -128,7 +130,7 @@ export class Signup extends LitElement {
       mode: 'subscription',
       amount: 0,
       currency: 'usd',
-      paymentMethodTypes: ['us_bank_account', 'card'],
+      paymentMethodTypes: getPaymentMethodTypes('usd'),
     }),
   );
 
@@ -209,6 +211,19 @@ export class Signup extends LitElement {
   @state()
   isComplete = false;
 
+  @state()
+  isReactivation = false;
+
+  @state()
+  isDuplicateMember = false;
+
+  /**
+   * Problems with the last submission, shown in a summary at the top of the
+   * form.  Errors with a `param` belong to that field.
+   */
+  @state()
+  private formErrors: FormError[] = [];
+
   @state()
   private isCompCalculatorOpen = false;
 
@@ -217,6 +232,21 @@ export class Signup extends LitElement {
     (countryData) => countryData[1] === 'US',
   )[2];
 
+  /**
+   * Sent with each submission so that the worker can recognise retries of the
+   * same submission (double-clicks, flaky networks) and not sign anyone up
+   * twice.  Cleared whenever the form is edited or the worker answers with an
+   * error, making the next submission a new one.
+   */
+  private submissionId?: string;
+
+  /**
+   * The token of the solved Turnstile challenge, if the form has one.  Each
+   * token can only be used once.
+   */
+  private challengeToken?: string;
+  private challengeWidgetId?: string;
+
   private hourlyRate = 0;
   private hoursPerWeek = 40;
   private readonly weeksPerYear = 52;
@@ -264,26 +294,93 @@ export class Signup extends LitElement {
     (event.target as HTMLInputElement).setCustomValidity('');
   }
 
+  protected formInputHandler(event: InputEvent): void {
+    this.clearInvalidity(event);
+    this.submissionId = undefined;
+    const { name } = event.target as HTMLInputElement;
+    if (this.formErrors.some(({ param }) => param === name)) {
+      this.formErrors = this.formErrors.filter(({ param }) => param !== name);
+    }
+  }
+
+  private errorSummaryTemplate(): TemplateResult {
+    if (!this.formErrors.length) {
+      return html``;
+    }
+    return html`<div
+      class="error-summary full-width"
+      role="alert"
+      aria-labelledby="error-summary-title"
+      tabindex="-1"
+    >
+      <h2 id="error-summary-title">
+        ${this.formErrors.length === 1
+          ? 'There is a problem with your application'
+          : `There are ${this.formErrors.length} problems with your application`}
+      </h2>
+      <ul>
+        ${this.formErrors.map(({ param, message }) =>
+          param && FIELDS[param]
+            ? html`<li>
+                <a
+                  href="#"
+                  @click=${(event: Event) => {
+                    event.preventDefault();
+                    this.focusField(param);
+                  }}
+                  >${FIELDS[param].label}: ${message}</a
+                >
+              </li>`
+            : html`<li>${message}</li>`,
+        )}
+      </ul>
+    </div>`;
+  }
+
   private paymentTemplate(): TemplateResult {
     return html` <h2>Payment</h2>
-      ${this.isBankSupported()
-        ? ''
-        : html` <div class="field full-width">
-            <div class="title">
-              We cannot register Canadian bank payments from this form yet. If
-              you would like to pay with bank withdrawal, please register with a
-              card and, once you've done so, email
-              <a href="mailto:membership@alphabetworkersunion.org">
-                membership@alphabetworkersunion.org</a
-              >
-              to be sent a secure link to update to bank payments.
-            </div>
-          </div>`}
       <slot
         class="field full-width"
         name="stripe-payment-container"
         @slotchange=${this.rebindStripePaymentElement}
-      ></slot>`;
+      ></slot>
+      ${this.lastStripeMethod === 'acss_debit'
+        ? this.padAgreementTemplate()
+        : ''}`;
+  }
+
+  /**
+   * The pre-authorized debit agreement which Canadian members paying by bank
+   * accept, as required by Payments Canada rule H1.
+   */
+  private padAgreementTemplate(): TemplateResult {
+    return html`<label class="full-width pad-agreement">
+      <span class="title">Pre-authorized debit agreement</span>
+      <span class="hint"
+        >I authorize Alphabet Workers Union-CWA, and Stripe on its behalf, to
+        debit the bank account I provide above for my calculated dues each
+        month, starting on the first charge date shown above, and for the
+        one-time ${this.formattedInitiationFee()} initiation fee. This is a
+        personal pre-authorized debit agreement. I will be notified at least 10
+        days before any change to the amount or date of the debits. I may cancel
+        this agreement at any time by emailing
+        <a href="mailto:membership@alphabetworkersunion.org"
+          >membership@alphabetworkersunion.org</a
+        >. I have certain recourse rights if any debit does not comply with this
+        agreement. For more information on my rights, I may contact my financial
+        institution or visit
+        <a href="https://www.payments.ca" target="_blank">payments.ca</a>.</span
+      >
+      <span class="checkbox">
+        <input
+          type="checkbox"
+          name="pad-agreement"
+          value="y"
+          ?required=${this.isFieldRequired('pad-agreement')}
+        />
+        I accept the pre-authorized debit agreement
+      </span>
+    </label>`;
   }
 
   render(): TemplateResult {
@@ -294,17 +391,40 @@ export class Signup extends LitElement {
           The membership committee will review your application and then send a
           welcome email after it's approved.
         </p>
-        <p>Welcome to our union!</p>
+        <p>
+          ${this.isReactivation
+            ? 'Welcome back to our union!'
+            : 'Welcome to our union!'}
+        </p>
+      </div>
+      <div
+        class="completed ${classMap({
+          'not-completed': !this.isDuplicateMember,
+        })}"
+      >
+        <h2>You're already a member</h2>
+        <p>
+          There is already a membership for this email address, so we've sent a
+          login link to your personal email. Use it to view and manage your
+          existing membership.
+        </p>
+        <p>
+          If you did not receive the email, contact the Membership Committee at
+          <a href="mailto:membership@alphabetworkersunion.org"
+            >membership@alphabetworkersunion.org</a
+          >.
+        </p>
       </div>
       <form
-        @input=${this.clearInvalidity}
+        @input=${this.formInputHandler}
         @invalid=${this.enableInvalidStyles}
         @submit=${this.submit}
         class="form ${classMap({
           disabled: this.isLoading,
-          complete: this.isComplete,
+          complete: this.isComplete || this.isDuplicateMember,
         })}"
       >
+        ${this.errorSummaryTemplate()}
         <p class="full-width">
           If you have any trouble completing this form, contact the Membership
           Committee at
@@ -777,8 +897,15 @@ export class Signup extends LitElement {
                 @input=${this.currencyChangeHandler}
                 autocomplete="transaction-currency"
               >
-                <option value="usd" selected>USD</option>
-                <option value="cad">CAD</option>
+                ${Object.keys(CURRENCIES).map(
+                  (currency) =>
+                    html`<option
+                      value=${currency}
+                      ?selected=${currency === 'usd'}
+                    >
+                      ${currency.toUpperCase()}
+                    </option>`,
+                )}
               </select>
             </div>
           </div>
@@ -828,8 +955,9 @@ export class Signup extends LitElement {
               >membership terms</a
             >
             of the Communications Workers of America, under which AWU-CWA is
-            formed. You also authorize a one-time ${FRIENDLY_INITIATION_FEE}
-            initiation fee, and the regular charge of your calculated dues.
+            formed. You also authorize a one-time
+            ${this.formattedInitiationFee()} initiation fee, and the regular
+            charge of your calculated dues.
             <em
               >Nothing is charged until the Membership Committee reviews and
               accepts your membership application.</em
@@ -844,6 +972,12 @@ export class Signup extends LitElement {
           />
         </label>
         <div class="actions">
+          ${window.TURNSTILE_SITE_KEY
+            ? html`<slot
+                name="challenge-container"
+                @slotchange=${this.renderChallenge}
+              ></slot>`
+            : ''}
           <span class="spacer"></span>
           <button type="submit" class="primary submit">Submit</button>
         </div>
@@ -858,9 +992,7 @@ export class Signup extends LitElement {
   async updateCurrencyPaymentMethod(): Promise<void> {
     (await this.stripeElements).update({
       currency: this.currency.value,
-      paymentMethodTypes: this.isBankSupported()
-        ? ['us_bank_account', 'card']
-        : ['card'],
+      paymentMethodTypes: getPaymentMethodTypes(this.currency.value),
     });
     this.requestUpdate();
   }
@@ -888,11 +1020,20 @@ export class Signup extends LitElement {
 
   async submit(event: Event): Promise<void> {
     event.preventDefault();
+    if (this.isLoading) {
+      return;
+    }
     this.enableInvalidStyles();
 
     this.isLoading = true;
+    this.formErrors = [];
+    this.submissionId ??= crypto.randomUUID();
     const body = new FormData(this.form);
     body.set('payment-method', this.lastStripeMethod);
+    body.set('submission-id', this.submissionId);
+    if (this.challengeToken) {
+      body.set('cf-turnstile-response', this.challengeToken);
+    }
     const email = this.personalEmail.value;
 
     // Create a wrapper function once more custom validations are run on this form.
@@ -913,38 +1054,45 @@ export class Signup extends LitElement {
 
       if (result.ok) {
         const responseBody = await result.json();
-        await (
-          await this.stripe
-        ).confirmSetup({
-          elements: await this.stripeElements,
-          clientSecret: responseBody['subscription_client_secret'],
-          confirmParams: {
-            return_url: window.location.toString(),
-            payment_method_data: {
-              billing_details: { email },
+        // A retried submission whose payment details were already confirmed
+        // has nothing left to set up.
+        if (responseBody['subscription_client_secret']) {
+          await (
+            await this.stripe
+          ).confirmSetup({
+            elements: await this.stripeElements,
+            clientSecret: responseBody['subscription_client_secret'],
+            confirmParams: {
+              return_url: window.location.toString(),
+              payment_method_data: {
+                billing_details: { email },
+              },
             },
-          },
-          redirect: 'if_required',
-        });
+            redirect: 'if_required',
+          });
+        }
+        this.isReactivation = Boolean(responseBody['reactivated']);
         this.isComplete = true;
       } else {
-        const { error } = await result.json();
-        console.error(error);
-        if (error.param) {
-          this.setInvalid(error.param, error.message);
-          throw false;
+        // Whatever the worker did for this submission has been rolled back, so
+        // the next one must be new rather than a retry of it.
+        this.submissionId = undefined;
+        const { error, errors } = await result.json();
+        console.error(error ?? errors);
+        if (errors) {
+          await this.showErrors(errors);
+        } else if (error.type === 'duplicate-member') {
+          this.isDuplicateMember = true;
         } else {
           throw error.message;
         }
       }
-      this.isComplete = true;
     } catch (e) {
-      if (e) {
-        console.error(e);
-        alert(e);
-      }
+      console.error(e);
+      await this.showErrors([{ message: String(e) }]);
     } finally {
       this.isLoading = false;
+      this.resetChallenge();
     }
   }
 
@@ -964,15 +1112,6 @@ export class Signup extends LitElement {
     this.updateCurrencyPaymentMethod();
   }
 
-  // TODO(#208): Temporary until bank accounts are supported for Canada.
-  private isBankSupported(): boolean {
-    return (
-      !this.mailingCountry ||
-      (this.mailingCountry?.value === 'United States' &&
-        this.currency.value === 'usd')
-    );
-  }
-
   compChangeHandler(): void {
     this.requestUpdate();
   }
@@ -996,7 +1135,7 @@ export class Signup extends LitElement {
       }
       this.paymentElement = (await this.stripeElements).create('payment', {
         layout: 'tabs',
-        paymentMethodOrder: ['us_bank_account', 'card'],
+        paymentMethodOrder: ['us_bank_account', 'acss_debit', 'card'],
         fields: {
           billingDetails: {
             email: 'never',
@@ -1014,6 +1153,37 @@ export class Signup extends LitElement {
     this.compChangeHandler();
   }
 
+  /**
+   * Like Stripe Elements, Turnstile does not work within the ShadowDOM, so
+   * when `window.TURNSTILE_SITE_KEY` is set, this element accepts a slot called
+   * `challenge-container` to render the challenge into.
+   */
+  private async renderChallenge(event: Event): Promise<void> {
+    const container = (
+      event.target as HTMLSlotElement
+    ).assignedElements()[0] as HTMLElement;
+    if (!(container instanceof Element) || this.challengeWidgetId) {
+      return;
+    }
+    const turnstile = await loadTurnstile();
+    this.challengeWidgetId = turnstile.render(container, {
+      sitekey: window.TURNSTILE_SITE_KEY,
+      callback: (token) => {
+        this.challengeToken = token;
+      },
+      'expired-callback': () => {
+        this.challengeToken = undefined;
+      },
+    });
+  }
+
+  private resetChallenge(): void {
+    if (this.challengeWidgetId) {
+      this.challengeToken = undefined;
+      window.turnstile?.reset(this.challengeWidgetId);
+    }
+  }
+
   compCalculatorClickHandler(): void {
     this.isCompCalculatorOpen = !this.isCompCalculatorOpen;
   }
@@ -1035,41 +1205,58 @@ export class Signup extends LitElement {
     this.recalculateTotalComp();
   }
 
-  isPayingWithCard(): boolean {
-    return this.lastStripeMethod === 'card';
-  }
-
   duesTemplate(): TemplateResult {
-    if (!this.totalCompensation?.value) {
+    const dues = this.calculatedDues();
+    if (!dues) {
       return html``;
     }
 
-    const tc = '$' + this.totalCompensation.value + '/yr';
-    return this.isPayingWithCard()
-      ? html`<div class="dues">
-          ${tc} &times; 1% &div; 12
-          <span class="dues-card-multiplier">
-            &times; ${1 + CARD_PROCESSING_FEE}</span
-          >
-          = <strong>${this.formattedDues()}</strong>/mo
-        </div>`
-      : html` <div class="dues">
-          ${tc} &times; 1% &div; 12 =
-          <strong>${this.formattedDues()}</strong>/mo
-        </div>`;
+    const tc =
+      getCurrency(dues.currency).symbol + this.totalCompensation.value + '/yr';
+    return html`<div class="dues">
+        ${dues.limit
+          ? dues.rule.description
+          : html`${tc} &times; ${dues.rule.rateBasisPoints / 100}% &div; 12`}
+        = ${formatCents(dues.monthlyDuesCents, dues.currency)}
+        ${dues.monthlyCardFeeCents
+          ? html`<span class="dues-card-multiplier">
+              + ${formatCents(dues.monthlyCardFeeCents, dues.currency)} card
+              fee</span
+            >`
+          : ''}
+        =
+        <strong>${formatCents(dues.monthlyTotalCents, dues.currency)}</strong
+        >/mo
+      </div>
+      <span class="hint"
+        >First charged on ${dues.firstChargeDate.toLocaleDateString()}, together
+        with the one-time ${formatCents(dues.initiationFeeCents, dues.currency)}
+        initiation fee.</span
+      >`;
   }
 
-  formattedDues(): string {
+  /**
+   * The dues the worker will bill for the details entered so far, or undefined
+   * if total compensation hasn't been entered yet.
+   */
+  calculatedDues(): DuesBreakdown | undefined {
     const comp = Number(this.totalCompensation?.value);
-    const cardMultiplier = this.isPayingWithCard()
-      ? 1 + CARD_PROCESSING_FEE
-      : 1;
-
-    if (!Number.isNaN(comp)) {
-      return `$${Math.floor((Math.floor(comp) / 100 / 12) * cardMultiplier)}`;
-    } else {
-      return '';
+    if (!this.totalCompensation?.value || Number.isNaN(comp)) {
+      return undefined;
     }
+    return calculateDues(
+      {
+        totalComp: comp,
+        currency: this.currency?.value ?? 'usd',
+        employmentType: this.employmentType?.value,
+      },
+      this.lastStripeMethod,
+    );
+  }
+
+  formattedInitiationFee(): string {
+    const currency = this.currency?.value || 'usd';
+    return formatCents(getCurrency(currency).initiationFeeCents, currency);
   }
 
   formattedCurrency(): string {
@@ -1080,29 +1267,45 @@ export class Signup extends LitElement {
     const input = this.form.elements.namedItem(
       field,
     ) as HTMLInputElement | null;
-    if (input) {
-      input.setCustomValidity(message);
-      input.scrollIntoView({
-        behavior: 'smooth',
-        block: 'center',
-      });
-    } else {
-      console.error(message);
-      alert(message);
+    input?.setCustomValidity(message);
+  }
+
+  /**
+   * Mark each field with an error as invalid, and list every error in the
+   * summary at the top of the form, moving focus there so that screen readers
+   * announce it.
+   */
+  async showErrors(errors: FormError[]): Promise<void> {
+    for (const { param, message } of errors) {
+      if (param) {
+        this.setInvalid(param, message);
+      }
     }
+    this.formErrors = errors;
+    await this.updateComplete;
+    const summary =
+      this.renderRoot.querySelector<HTMLElement>('.error-summary');
+    summary?.focus();
+    summary?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   }
 
-  isFte(): boolean {
-    return (
-      this.employmentType?.value === 'fte' ||
-      this.employmentType?.value === undefined
-    );
+  focusField(field: string): void {
+    const input = this.form.elements.namedItem(
+      field,
+    ) as HTMLInputElement | null;
+    input?.focus();
+    input?.scrollIntoView({
+      behavior: 'smooth',
+      block: 'center',
+    });
   }
 
   isFieldRequired(name: string): boolean {
-    return (
-      REQUIRED_FIELDS.includes(name) ||
-      (this.isFte() && FTE_REQUIRED_FIELDS.includes(name))
+    return isFieldRequired(name, (field) =>
+      field === 'payment-method'
+        ? this.lastStripeMethod
+        : (this.form?.elements.namedItem(field) as HTMLInputElement | null)
+            ?.value,
     );
   }
 
@@ -1111,10 +1314,49 @@ export class Signup extends LitElement {
   }
 }
 
+interface FormError {
+  param?: string;
+  message: string;
+}
+
+/**
+ * The parts of Turnstile's client API which the form uses.
+ *
+ * https://developers.cloudflare.com/turnstile/get-started/client-side-rendering/
+ */
+interface Turnstile {
+  render(
+    container: HTMLElement,
+    options: {
+      sitekey: string;
+      callback: (token: string) => void;
+      'expired-callback': () => void;
+    },
+  ): string;
+  reset(widgetId: string): void;
+}
+
+let turnstileScript: Promise<Turnstile> | undefined;
+
+function loadTurnstile(): Promise<Turnstile> {
+  turnstileScript ??= new Promise((resolve, reject) => {
+    const script = document.createElement('script');
+    script.src =
+      'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+    script.onload = () => resolve(window.turnstile);
+    script.onerror = reject;
+    document.head.append(script);
+  });
+  return turnstileScript;
+}
+
 declare global {
   interface Window {
     SIGNUP_API: string;
     STRIPE_KEY: string;
+    // Only set if signups must solve a Turnstile challenge.
+    TURNSTILE_SITE_KEY?: string;
+    turnstile?: Turnstile;
     PAYMENT_INTENT_API: string;
     fillTestValues: () => void;
   }
@@ -0,0 +1,328 @@
+import { FIELDS, METADATA } from '../../signup-worker/src/fields';
+import type { Application } from './admin';
+import { CsrfField } from './csrf';
+import { DASHBOARD_STATUS_LABELS } from './dashboard';
+import { DUES_PAUSE_REASONS, DuesPauseRequest } from './dues-pause';
+import { makeHtmlResponse, renderDocument } from './html';
+import { DuplicateCluster, getMembershipStatus } from './memberships';
+import type { ProfileReviewRequest } from './profile';
+
+export const ADMIN_PATH = '/admin';
+export const DUPLICATES_PATH = '/admin/duplicates';
+export const ADMIN_LOGOUT_PATH = '/admin/logout';
+export const APPLICATIONS_PATH = '/admin/applications';
+export const DUES_PAUSES_PATH = '/admin/dues-pauses';
+export const PROFILE_REVIEWS_PATH = '/admin/profile-reviews';
+
+const containerStyle = {
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+  padding: 'var(--container-padding)',
+  display: 'flex',
+  flexDirection: 'column',
+  gap: 'var(--container-padding)',
+  alignItems: 'stretch',
+  margin: '0 auto',
+} as const;
+
+const buttonStyle = {
+  fontSize: '1.1em',
+  padding: '20px 30px',
+  border: 0,
+  borderRadius: 50,
+  color: 'var(--white)',
+} as const;
+
+export function adminLoginPage(params: URLSearchParams): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      params.has('link_sent') ? (
+        <div style={{ ...containerStyle, maxWidth: 'min(400px, 90vw)' }}>
+          <p style={{ margin: 0 }}>
+            If your email belongs to a Membership Committee member, a login link has been sent.
+            <br />
+            <br />
+            This tab may be closed.
+          </p>
+        </div>
+      ) : (
+        <form action="" method="post" style={{ ...containerStyle, maxWidth: 'min(400px, 90vw)' }}>
+          <h1 style={{ textAlign: 'center', margin: 0 }}>Membership Committee login</h1>
+          {params.has('failure') && <p style={{ margin: 0 }}>The login link could not be sent. Please try again.</p>}
+          {params.has('link_invalid') && (
+            <p style={{ margin: 0 }}>That login link has expired or has already been used. Please ask for a new one.</p>
+          )}
+          <p style={{ padding: '0 var(--text-padding)', margin: 0 }}>Enter your committee email. We'll send you a link to log in.</p>
+          <input
+            type="email"
+            name="email"
+            style={{
+              fontSize: '1.4em',
+              padding: 'var(--text-padding)',
+              borderRadius: 'var(--border-radius)',
+              border: 'solid 2px var(--gray-1)',
+            }}
+          />
+          <button type="submit" style={{ ...buttonStyle, background: 'var(--primary)' }}>
+            Send Login Link
+          </button>
+        </form>
+      ),
+    ),
+  );
+}
+
+export function applicationsPage(
+  applications: Application[],
+  pauseRequests: DuesPauseRequest[],
+  profileReviews: ProfileReviewRequest[],
+  committeeMember: string,
+  csrfToken: string,
+  params: URLSearchParams,
+): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <div style={{ ...containerStyle, maxWidth: 'min(900px, 90vw)' }}>
+        <h1 style={{ margin: 0 }}>Pending applications</h1>
+        <form method="post" action={ADMIN_LOGOUT_PATH} style={{ margin: 0, fontSize: '0.7em' }}>
+          Logged in as {committeeMember}. <a href={DUPLICATES_PATH}>Members sharing an email</a> <CsrfField token={csrfToken} />
+          <button type="submit">Log out</button>
+        </form>
+        {params.get('decided') === 'approve' && (
+          <Notice>
+            {params.has('email_failed')
+              ? "Application approved, but the welcome email couldn't be sent. Please email the new member."
+              : 'Application approved. The new member has been sent a welcome email.'}
+          </Notice>
+        )}
+        {params.get('decided') === 'reject' && (
+          <Notice>
+            {params.has('email_failed')
+              ? "Application rejected, but the rejection email couldn't be sent. Please email the applicant."
+              : 'Application rejected. The applicant has been sent a rejection email.'}
+          </Notice>
+        )}
+        {params.has('failure') && (
+          <Notice>Something went wrong, so the decision may not have been recorded. Please refresh and check.</Notice>
+        )}
+        {applications.length ? (
+          applications.map((application) => applicationCard(application, csrfToken))
+        ) : (
+          <p style={{ margin: 0 }}>There are no applications waiting for review.</p>
+        )}
+        <h1 style={{ margin: 0 }}>Dues pause requests</h1>
+        {params.get('pause_decided') === 'approve' && <Notice>Dues pause approved. The member has been emailed.</Notice>}
+        {params.get('pause_decided') === 'reject' && <Notice>Dues pause rejected. The member has been emailed.</Notice>}
+        {pauseRequests.length ? (
+          pauseRequests.map((pauseRequest) => pauseRequestCard(pauseRequest, csrfToken))
+        ) : (
+          <p style={{ margin: 0 }}>There are no dues pause requests waiting for review.</p>
+        )}
+        <h1 style={{ margin: 0 }}>Employment details changes</h1>
+        {params.get('profile_decided') === 'approve' && <Notice>Changes approved and applied.</Notice>}
+        {params.get('profile_decided') === 'reject' && <Notice>Changes rejected. The member's details are unchanged.</Notice>}
+        {profileReviews.length ? (
+          profileReviews.map((profileReview) => profileReviewCard(profileReview, csrfToken))
+        ) : (
+          <p style={{ margin: 0 }}>There are no changes to employment details waiting for review.</p>
+        )}
+      </div>,
+    ),
+  );
+}
+
+function applicationCard({ customer, subscription }: Application, csrfToken: string) {
+  const monthlyCents = subscription.items.data.reduce((total, item) => total + (item.price.unit_amount ?? 0) * (item.quantity ?? 1), 0);
+  return (
+    <section
+      style={{
+        border: 'solid 2px var(--gray-2)',
+        borderRadius: 'var(--border-radius)',
+        padding: 'var(--container-padding)',
+      }}
+    >
+      <h2 style={{ marginTop: 0 }}>{customer.name}</h2>
+      <p>
+        <a href={`mailto:${customer.email ?? ''}`}>{customer.email}</a>, applied {new Date(customer.created * 1000).toDateString()}, dues{' '}
+        {(monthlyCents / 100).toFixed(2)} {subscription.currency.toUpperCase()}/mo
+      </p>
+      <table style={{ fontSize: '0.7em', borderSpacing: '8px 2px' }}>
+        <tbody>
+          {METADATA.map((fieldName) => (
+            <tr>
+              <th style={{ textAlign: 'left' }}>{FIELDS[fieldName].label}</th>
+              <td>{customer.metadata[fieldName]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <form
+        method="post"
+        action={APPLICATIONS_PATH}
+        style={{ display: 'flex', gap: 'var(--container-padding)', marginTop: 'var(--container-padding)' }}
+      >
+        <CsrfField token={csrfToken} />
+        <input type="hidden" name="customer" value={customer.id} />
+        <button type="submit" name="decision" value="approve" style={{ ...buttonStyle, background: 'var(--primary)' }}>
+          Approve
+        </button>
+        <button type="submit" name="decision" value="reject" style={{ ...buttonStyle, background: 'var(--gray-1)' }}>
+          Reject
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function pauseRequestCard({ customer, pause }: DuesPauseRequest, csrfToken: string) {
+  return (
+    <section
+      style={{
+        border: 'solid 2px var(--gray-2)',
+        borderRadius: 'var(--border-radius)',
+        padding: 'var(--container-padding)',
+      }}
+    >
+      <h2 style={{ marginTop: 0 }}>{customer.name}</h2>
+      <p>
+        <a href={`mailto:${customer.email ?? ''}`}>{customer.email}</a>: {DUES_PAUSE_REASONS[pause.reason] ?? pause.reason}, from{' '}
+        {pause.start} until {pause.end}
+      </p>
+      <form method="post" action={DUES_PAUSES_PATH} style={{ display: 'flex', gap: 'var(--container-padding)' }}>
+        <CsrfField token={csrfToken} />
+        <input type="hidden" name="customer" value={customer.id} />
+        <button type="submit" name="pause_decision" value="approve" style={{ ...buttonStyle, background: 'var(--primary)' }}>
+          Approve
+        </button>
+        <button type="submit" name="pause_decision" value="reject" style={{ ...buttonStyle, background: 'var(--gray-1)' }}>
+          Reject
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function profileReviewCard({ customer, review }: ProfileReviewRequest, csrfToken: string) {
+  return (
+    <section
+      style={{
+        border: 'solid 2px var(--gray-2)',
+        borderRadius: 'var(--border-radius)',
+        padding: 'var(--container-padding)',
+      }}
+    >
+      <h2 style={{ marginTop: 0 }}>{customer.name}</h2>
+      <p>
+        <a href={`mailto:${customer.email ?? ''}`}>{customer.email}</a>
+      </p>
+      <table style={{ fontSize: '0.7em', borderSpacing: '8px 2px' }}>
+        <thead>
+          <tr>
+            <th></th>
+            <th style={{ textAlign: 'left' }}>Before</th>
+            <th style={{ textAlign: 'left' }}>After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {review.changes.map(({ field, before, after }) => (
+            <tr>
+              <th style={{ textAlign: 'left' }}>{FIELDS[field].label}</th>
+              <td>{before}</td>
+              <td>{after}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <form
+        method="post"
+        action={PROFILE_REVIEWS_PATH}
+        style={{ display: 'flex', gap: 'var(--container-padding)', marginTop: 'var(--container-padding)' }}
+      >
+        <CsrfField token={csrfToken} />
+        <input type="hidden" name="customer" value={customer.id} />
+        <button type="submit" name="profile_decision" value="approve" style={{ ...buttonStyle, background: 'var(--primary)' }}>
+          Approve
+        </button>
+        <button type="submit" name="profile_decision" value="reject" style={{ ...buttonStyle, background: 'var(--gray-1)' }}>
+          Reject
+        </button>
+      </form>
+    </section>
+  );
+}
+
+/**
+ * Emails with more than one customer, so the committee can find members who
+ * signed up twice and tidy up their records in Stripe.
+ */
+export function duplicatesPage(clusters: DuplicateCluster[], committeeMember: string): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <div style={{ ...containerStyle, maxWidth: 'min(900px, 90vw)' }}>
+        <h1 style={{ margin: 0 }}>Members sharing an email</h1>
+        <p style={{ margin: 0, fontSize: '0.7em' }}>
+          Logged in as {committeeMember}. <a href={ADMIN_PATH}>Back to pending applications</a>
+        </p>
+        <p style={{ margin: 0 }}>
+          Each of these emails belongs to more than one customer in Stripe. Members with them choose which membership to manage when they
+          log in.
+        </p>
+        {clusters.length ? clusters.map(duplicateClusterCard) : <p style={{ margin: 0 }}>No two customers share an email.</p>}
+      </div>,
+    ),
+  );
+}
+
+function duplicateClusterCard({ email, customers }: DuplicateCluster) {
+  return (
+    <section
+      style={{
+        border: 'solid 2px var(--gray-2)',
+        borderRadius: 'var(--border-radius)',
+        padding: 'var(--container-padding)',
+      }}
+    >
+      <h2 style={{ marginTop: 0 }}>
+        <a href={`mailto:${email}`}>{email}</a>
+      </h2>
+      <table style={{ fontSize: '0.7em', borderSpacing: '8px 2px' }}>
+        <thead>
+          <tr>
+            <th style={{ textAlign: 'left' }}>Customer</th>
+            <th style={{ textAlign: 'left' }}>Name</th>
+            <th style={{ textAlign: 'left' }}>Signed up</th>
+            <th style={{ textAlign: 'left' }}>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {customers.map((customer) => (
+            <tr>
+              <td>
+                <a href={`https://dashboard.stripe.com/customers/${customer.id}`}>{customer.id}</a>
+              </td>
+              <td>{customer.name}</td>
+              <td>{new Date(customer.created * 1000).toDateString()}</td>
+              <td>{DASHBOARD_STATUS_LABELS[getMembershipStatus(customer)]}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </section>
+  );
+}
+
+function Notice({ children }: { children: string }) {
+  return (
+    <p
+      style={{
+        background: 'var(--yellow-faded)',
+        border: 'solid 2px var(--yellow)',
+        margin: 0,
+        padding: 'var(--text-padding)',
+        borderRadius: 'var(--border-radius)',
+      }}
+    >
+      {children}
+    </p>
+  );
+}
@@ -0,0 +1,403 @@
+import { decode, sign, verify } from '@tsndr/cloudflare-worker-jwt';
+import Stripe from 'stripe';
+import { serialize, parse } from 'cookie';
+
+import { COMMITTEE_DECISION, COMMITTEE_DECISION_AT, COMMITTEE_DECISION_BY, MEMBERSHIP_STATUS } from '../../common/membership';
+import {
+  ADMIN_LOGOUT_PATH,
+  ADMIN_PATH,
+  adminLoginPage,
+  APPLICATIONS_PATH,
+  applicationsPage,
+  DUES_PAUSES_PATH,
+  DUPLICATES_PATH,
+  duplicatesPage,
+  PROFILE_REVIEWS_PATH,
+} from './admin-page';
+import { csrfErrorPage, isValidCsrfToken, makeCsrfToken } from './csrf';
+import { errorPage } from './error-page';
+import { decideDuesPause, listDuesPauseRequests } from './dues-pause';
+import { claimLoginToken, LOGIN_AUDIENCE } from './login-link';
+import { continueLoginPage } from './login-page';
+import { listDuplicateCustomers } from './memberships';
+import { decideProfileReview, listProfileReviews } from './profile';
+import { FormContext, Handler, RouteContext, Routes, withForm } from './router';
+import { sendLoginEmail, sendRejectionEmail, sendWelcomeEmail } from './sendgrid';
+import { cookieOptions, redirectWithCookie, SESSION_AUDIENCE, sessionKey } from './session';
+import { getTokenStore } from './token-store';
+
+const SESSION_COOKIE = 'committee_session';
+
+// Committee tokens have the same audiences as members' login and session
+// tokens, and this role so that neither kind can be used as the other.
+const COMMITTEE_ROLE = 'committee';
+
+const LOGIN_DURATION = 60 * 30; // 30 min.
+const SESSION_DURATION = 60 * 60 * 8; // 8 hours.
+
+export type Decision = 'approve' | 'reject';
+
+export interface Application {
+  customer: Stripe.Customer;
+  // The subscription created at signup, with collection paused until the
+  // application is approved.
+  subscription: Stripe.Subscription;
+}
+
+/**
+ * A logged in committee member.
+ */
+interface CommitteeSession {
+  email: string;
+  jti: string;
+  // Sent back by every form, like members' CSRF tokens.
+  csrfToken: string;
+}
+
+/**
+ * For pages only logged in committee members can see.
+ */
+interface CommitteeContext extends RouteContext {
+  session: CommitteeSession;
+}
+
+/**
+ * For the committee's decisions, and logging out.
+ */
+interface CommitteeFormContext extends CommitteeContext, FormContext {}
+
+/**
+ * The Membership Committee's area, for reviewing membership applications.
+ *
+ * Committee members log in with an emailed link like members do, but links are
+ * only sent to the addresses listed in `COMMITTEE_EMAILS`.  As with members'
+ * links, each can only be used once, and only when clicked through, and
+ * sessions can be logged out of.
+ */
+export const adminRoutes: Routes = {
+  [ADMIN_PATH]: { GET: whenSetUp(withCommitteeSession(handleAdminPage)), POST: whenSetUp(withForm(handleLoginForm, ADMIN_PATH)) },
+  [DUPLICATES_PATH]: {
+    GET: requireCommitteeSession(async ({ env, session }) => duplicatesPage(await listDuplicateCustomers(env), session.email)),
+  },
+  [ADMIN_LOGOUT_PATH]: { POST: requireCommitteeForm(({ request, env, session }) => logout(session, request, env)) },
+  [APPLICATIONS_PATH]: { POST: requireCommitteeForm(handleApplicationDecision) },
+  [DUES_PAUSES_PATH]: { POST: requireCommitteeForm(handleDecision('pause_decision', 'pause_decided', decideDuesPause)) },
+  [PROFILE_REVIEWS_PATH]: { POST: requireCommitteeForm(handleDecision('profile_decision', 'profile_decided', decideProfileReview)) },
+};
+
+function handleAdminPage({ env, url, session }: RouteContext & { session?: CommitteeSession }): Promise<Response> | Response {
+  const loginToken = url.searchParams.get('login_token');
+  if (loginToken) {
+    return continueLoginPage(loginToken, ADMIN_PATH, 'Membership Committee login');
+  } else if (session) {
+    return handleApplicationsPage(session, url.searchParams, env);
+  } else {
+    return adminLoginPage(url.searchParams);
+  }
+}
+
+async function handleApplicationsPage(session: CommitteeSession, params: URLSearchParams, env: Env): Promise<Response> {
+  const [applications, pauseRequests, profileReviews] = await Promise.all([
+    listPendingApplications(env),
+    listDuesPauseRequests(env),
+    listProfileReviews(env),
+  ]);
+  return applicationsPage(applications, pauseRequests, profileReviews, session.email, session.csrfToken, params);
+}
+
+/**
+ * Email a login link, or log in with one.
+ */
+async function handleLoginForm({ request, env, body }: FormContext): Promise<Response> {
+  const email = body.get('email');
+  const loginToken = body.get('login_token');
+  if (typeof email === 'string' && email) {
+    if (isCommitteeEmail(email, env)) {
+      try {
+        await sendLoginEmail(email, adminUrl(request.url, 'login_token', await makeCommitteeLoginToken(email, env)), env);
+      } catch (e) {
+        console.error(e);
+        return Response.redirect(adminUrl(request.url, 'failure'));
+      }
+    }
+    return Response.redirect(adminUrl(request.url, 'link_sent'));
+  } else if (typeof loginToken === 'string' && loginToken) {
+    const loginEmail = await useCommitteeLoginToken(loginToken, env);
+    return loginEmail ? redirectWithSession(loginEmail, request, env) : Response.redirect(adminUrl(request.url, 'link_invalid'));
+  } else {
+    return Response.redirect(adminUrl(request.url));
+  }
+}
+
+/**
+ * Like `handleDecision`, but also shows in `email_failed` if the applicant
+ * couldn't be emailed about the decision, which stands regardless.
+ */
+async function handleApplicationDecision({ request, env, body, session }: CommitteeFormContext): Promise<Response> {
+  const customerId = body.get('customer');
+  const decision = body.get('decision');
+  if (typeof customerId !== 'string' || (decision !== 'approve' && decision !== 'reject')) {
+    return Response.redirect(adminUrl(request.url));
+  }
+  let emailed: boolean;
+  try {
+    emailed = await decideApplication(customerId, decision, session.email, env);
+  } catch (e) {
+    console.error(e);
+    return Response.redirect(adminUrl(request.url, 'failure'));
+  }
+  const location = new URL(adminUrl(request.url, 'decided', decision));
+  if (!emailed) {
+    location.searchParams.set('email_failed', '');
+  }
+  return Response.redirect(location.toString());
+}
+
+/**
+ * Handles the approve and reject buttons for one kind of request, then shows
+ * the outcome in the `outcomeParam` of the committee's page.
+ */
+function handleDecision(
+  field: string,
+  outcomeParam: string,
+  decide: (customerId: string, decision: Decision, committeeMember: string, env: Env) => Promise<void>,
+): Handler<CommitteeFormContext> {
+  return async ({ request, env, body, session }) => {
+    const customerId = body.get('customer');
+    const decision = body.get(field);
+    if (typeof customerId !== 'string' || (decision !== 'approve' && decision !== 'reject')) {
+      return Response.redirect(adminUrl(request.url));
+    }
+    try {
+      await decide(customerId, decision, session.email, env);
+    } catch (e) {
+      console.error(e);
+      return Response.redirect(adminUrl(request.url, 'failure'));
+    }
+    return Response.redirect(adminUrl(request.url, outcomeParam, decision));
+  };
+}
+
+/**
+ * Shows an error instead of the committee's area until `COMMITTEE_EMAILS` is
+ * set, since nobody could log in to it.
+ */
+function whenSetUp(handler: Handler): Handler {
+  return (context) =>
+    getCommitteeEmails(context.env).length
+      ? handler(context)
+      : errorPage(503, 'Not set up yet', "The Membership Committee area can't be used until COMMITTEE_EMAILS is set.");
+}
+
+function withCommitteeSession(handler: Handler<RouteContext & { session?: CommitteeSession }>): Handler {
+  return async (context) => handler({ ...context, session: await getCommitteeSession(context.request, context.env) });
+}
+
+/**
+ * Sends visitors who aren't logged in to the committee's login page.
+ */
+function requireCommitteeSession(handler: Handler<CommitteeContext>): Handler {
+  return withCommitteeSession(({ session, ...context }) =>
+    session ? handler({ ...context, session }) : Response.redirect(adminUrl(context.request.url)),
+  );
+}
+
+/**
+ * Turns away forms which weren't submitted from the committee's own pages, by
+ * checking their origin and CSRF token.
+ */
+function requireCommitteeForm(handler: Handler<CommitteeFormContext>): Handler {
+  return withForm(async (context) => {
+    const session = await getCommitteeSession(context.request, context.env);
+    if (!session) {
+      return Response.redirect(adminUrl(context.request.url));
+    }
+    return isValidCsrfToken(context.body, session.csrfToken) ? handler({ ...context, session }) : csrfErrorPage(ADMIN_PATH);
+  }, ADMIN_PATH);
+}
+
+/**
+ * Applications which have finished payment setup and are waiting for the
+ * committee's decision, oldest first.
+ */
+async function listPendingApplications(env: Env): Promise<Application[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customers = await stripe.customers.search({
+    query: `metadata['${MEMBERSHIP_STATUS}']:'pending-approval'`,
+    limit: 100,
+  });
+  const applications = await Promise.all(
+    customers.data.map(async (customer) => {
+      const subscription = await getPausedSubscription(customer.id, stripe);
+      return subscription && { customer, subscription };
+    }),
+  );
+  return applications
+    .filter((application): application is Application => !!application)
+    .sort((a, b) => a.customer.created - b.customer.created);
+}
+
+async function getPausedSubscription(customerId: string, stripe: Stripe): Promise<Stripe.Subscription | undefined> {
+  const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'active' });
+  return subscriptions.data.find((subscription) => subscription.pause_collection);
+}
+
+/**
+ * Approve an application by resuming collection of dues, or reject it by
+ * canceling the subscription and the initiation fee.  Either way, the decision
+ * is recorded on their customer, and then the applicant is emailed.
+ *
+ * @returns Whether the applicant was emailed.  The decision stands even if the
+ *     email couldn't be sent, so the committee can email them instead.
+ */
+async function decideApplication(customerId: string, decision: Decision, committeeMember: string, env: Env): Promise<boolean> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted || customer.metadata[MEMBERSHIP_STATUS] !== 'pending-approval') {
+    throw new Error(`${customerId} does not have a pending application.`);
+  }
+  const subscription = await getPausedSubscription(customerId, stripe);
+  if (!subscription) {
+    throw new Error(`${customerId} has no paused subscription to ${decision}.`);
+  }
+
+  if (decision === 'approve') {
+    await stripe.subscriptions.update(subscription.id, { pause_collection: '' });
+  } else {
+    await stripe.subscriptions.cancel(subscription.id);
+    await voidInitiationFee(customerId, stripe);
+  }
+  await stripe.customers.update(customerId, {
+    metadata: {
+      [COMMITTEE_DECISION]: decision === 'approve' ? 'approved' : 'rejected',
+      [COMMITTEE_DECISION_BY]: committeeMember,
+      [COMMITTEE_DECISION_AT]: new Date().toISOString(),
+    },
+  });
+
+  const email = customer.email ?? '';
+  const name = customer.name ?? '';
+  try {
+    await (decision === 'approve' ? sendWelcomeEmail(email, name, env) : sendRejectionEmail(email, name, env));
+  } catch (e) {
+    console.error(`Couldn't email ${customerId} that their application was ${decision === 'approve' ? 'approved' : 'rejected'}.`, e);
+    return false;
+  }
+  return true;
+}
+
+/**
+ * The initiation fee is a pending invoice item until the first invoice is
+ * drafted, so depending on timing it may need deleting from either.
+ */
+async function voidInitiationFee(customerId: string, stripe: Stripe): Promise<void> {
+  const invoiceItems = await stripe.invoiceItems.list({ customer: customerId, pending: true });
+  await Promise.all(invoiceItems.data.map(({ id }) => stripe.invoiceItems.del(id)));
+  const invoices = await stripe.invoices.list({ customer: customerId });
+  await Promise.all(
+    invoices.data.map((invoice) => {
+      if (invoice.status === 'draft') {
+        return stripe.invoices.del(invoice.id);
+      } else if (invoice.status === 'open') {
+        return stripe.invoices.voidInvoice(invoice.id);
+      }
+    }),
+  );
+}
+
+/**
+ * @returns No emails if `COMMITTEE_EMAILS` isn't set
+ */
+export function getCommitteeEmails(env: Env): string[] {
+  return (env.COMMITTEE_EMAILS ?? '')
+    .split(',')
+    .map((committeeEmail) => committeeEmail.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+function isCommitteeEmail(email: string, env: Env): boolean {
+  return getCommitteeEmails(env).includes(email.trim().toLowerCase());
+}
+
+/**
+ * @returns The committee member's email, if the token is valid and unused and
+ *     they are still on the committee
+ */
+async function useCommitteeLoginToken(token: string, env: Env): Promise<string | undefined> {
+  const payload = await verifyCommitteeToken(token, LOGIN_AUDIENCE, env);
+  return payload && (await claimLoginToken(payload.jti, payload.exp, env)) ? payload.email : undefined;
+}
+
+/**
+ * Sessions are only valid while they're in the token store, like members'.
+ *
+ * @returns Undefined unless the request has a session that hasn't been logged
+ *     out of, and its committee member is still on the committee
+ */
+async function getCommitteeSession(request: Request, env: Env): Promise<CommitteeSession | undefined> {
+  const token = parse(request.headers.get('cookie') ?? '')[SESSION_COOKIE] as string | undefined;
+  const payload = token && (await verifyCommitteeToken(token, SESSION_AUDIENCE, env));
+  if (!token || !payload || !(await getTokenStore(env).get(committeeSessionKey(payload.email, payload.jti)))) {
+    return undefined;
+  }
+  return { email: payload.email, jti: payload.jti, csrfToken: await makeCsrfToken(token, env) };
+}
+
+async function verifyCommitteeToken(
+  token: string,
+  audience: string,
+  env: Env,
+): Promise<{ email: string; jti: string; exp: number } | undefined> {
+  if (!(await verify(token, env.LOGIN_LINK_SECRET))) {
+    return undefined;
+  }
+  const { sub, aud, jti, exp, role } = decode<{ role?: unknown }>(token).payload ?? {};
+  return sub && aud === audience && role === COMMITTEE_ROLE && jti && exp && isCommitteeEmail(sub, env)
+    ? { email: sub, jti, exp }
+    : undefined;
+}
+
+function makeCommitteeLoginToken(email: string, env: Env): Promise<string> {
+  return makeCommitteeToken(email, LOGIN_AUDIENCE, crypto.randomUUID(), Math.floor(Date.now() / 1000) + LOGIN_DURATION, env);
+}
+
+function makeCommitteeToken(email: string, audience: string, jti: string, exp: number, env: Env): Promise<string> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  return sign({ sub: email, role: COMMITTEE_ROLE, aud: audience, jti, exp }, secret);
+}
+
+async function redirectWithSession(email: string, request: Request, env: Env): Promise<Response> {
+  const jti = crypto.randomUUID();
+  const exp = Math.floor(Date.now() / 1000) + SESSION_DURATION;
+  const sessionToken = await makeCommitteeToken(email, SESSION_AUDIENCE, jti, exp, env);
+  await getTokenStore(env).put(committeeSessionKey(email, jti), new Date().toISOString(), { expiration: exp });
+  return redirectWithCookie(
+    new URL(ADMIN_PATH, request.url),
+    serialize(SESSION_COOKIE, sessionToken, committeeCookieOptions(SESSION_DURATION)),
+  );
+}
+
+async function logout(session: CommitteeSession, request: Request, env: Env): Promise<Response> {
+  await getTokenStore(env).delete(committeeSessionKey(session.email, session.jti));
+  return redirectWithCookie(new URL(ADMIN_PATH, request.url), serialize(SESSION_COOKIE, '', committeeCookieOptions(0)));
+}
+
+function committeeSessionKey(email: string, jti: string): string {
+  return sessionKey(email, jti, COMMITTEE_ROLE);
+}
+
+/**
+ * Only sent to the committee's area, and never with requests from other sites.
+ */
+function committeeCookieOptions(maxAge: number) {
+  return cookieOptions(maxAge, { path: ADMIN_PATH, sameSite: 'strict' });
+}
+
+function adminUrl(url: string, param?: string, value: string = ''): string {
+  const newUrl = new URL(ADMIN_PATH, url);
+  if (param) {
+    newUrl.searchParams.set(param, value);
+  }
+  return newUrl.toString();
+}
@@ -0,0 +1,95 @@
+import Stripe from 'stripe';
+
+import { COMPENSATION_CONFIRMATION_STATUS, COMPENSATION_PROMPTED_AT, MEMBERSHIP_STATUS } from '../../common/membership';
+import { makeLoginLink } from './login-link';
+import { sendLoginEmail } from './sendgrid';
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+// Members are emailed on the first run within this many days after the
+// anniversary of their signup, so runs that fail are made up for by later ones.
+const PROMPT_WINDOW_DAYS = 30;
+
+// Members may not read their email straight away.
+const LINK_EXPIRY_SECONDS = 7 * DAY_SECONDS;
+
+// Subscriptions which make their customer a member, including members in
+// arrears and those whose dues are paused.
+const MEMBER_SUBSCRIPTION_STATUSES: Stripe.Subscription.Status[] = ['active', 'past_due', 'paused'];
+
+/**
+ * Email a login link to every member whose signup anniversary has just passed,
+ * asking them to confirm or update their total compensation.
+ *
+ * Each prompt is recorded in the member's metadata as soon as it's sent, so the
+ * job can be rerun, or resume after failing part way, without emailing members
+ * who have already been prompted this year.
+ */
+export async function promptCompensationConfirmations(env: Env, now = new Date()): Promise<void> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  for await (const customer of stripe.customers.list({ limit: 100 })) {
+    if (!isConfirmationDue(customer, now)) {
+      continue;
+    }
+    try {
+      if (!(await isMember(customer, stripe))) {
+        continue;
+      }
+      await promptCustomer(customer, now, stripe, env);
+    } catch (e) {
+      console.error(`Couldn't prompt ${customer.id} to confirm their compensation.`, e);
+    }
+  }
+}
+
+/**
+ * Whether the customer should be prompted now, if they're a member.
+ */
+export function isConfirmationDue(customer: Stripe.Customer, now: Date): boolean {
+  // Members who joined before membership statuses were recorded have none.
+  const status = customer.metadata[MEMBERSHIP_STATUS];
+  if (!customer.email || (status && status !== 'active' && status !== 'in-arrears')) {
+    return false;
+  }
+  const anniversary = getLastAnniversary(new Date(customer.created * 1000), now);
+  if (!anniversary || now.getTime() - anniversary.getTime() > PROMPT_WINDOW_DAYS * DAY_SECONDS * 1000) {
+    return false;
+  }
+  const promptedAt = customer.metadata[COMPENSATION_PROMPTED_AT];
+  return !promptedAt || new Date(promptedAt) < anniversary;
+}
+
+/**
+ * @returns The most recent anniversary of `joined` up to `now`, or undefined
+ *     during the first year
+ */
+export function getLastAnniversary(joined: Date, now: Date): Date | undefined {
+  const anniversary = new Date(joined);
+  anniversary.setUTCFullYear(now.getUTCFullYear());
+  if (anniversary > now) {
+    anniversary.setUTCFullYear(now.getUTCFullYear() - 1);
+  }
+  return anniversary > joined ? anniversary : undefined;
+}
+
+/**
+ * Whether the customer has a subscription which makes them a member.  Their
+ * status alone can't say, for those who joined before statuses were recorded.
+ */
+async function isMember(customer: Stripe.Customer, stripe: Stripe): Promise<boolean> {
+  const subscriptions = await stripe.subscriptions.list({ customer: customer.id, status: 'all' });
+  return subscriptions.data.some((subscription) => MEMBER_SUBSCRIPTION_STATUSES.includes(subscription.status));
+}
+
+async function promptCustomer(customer: Stripe.Customer, now: Date, stripe: Stripe, env: Env): Promise<void> {
+  const loginLink = await makeLoginLink(env.LOGIN_URL, [customer.id], env, LINK_EXPIRY_SECONDS);
+  await sendLoginEmail(customer.email ?? '', loginLink, env, 'SENDGRID_COMPENSATION_CONFIRMATION_TEMPLATE');
+  // Recorded only once the email is sent, so that failed emails are retried. If
+  // this fails, the member may be emailed again on the next run.
+  await stripe.customers.update(customer.id, {
+    metadata: {
+      [COMPENSATION_CONFIRMATION_STATUS]: 'prompted',
+      [COMPENSATION_PROMPTED_AT]: now.toISOString(),
+    },
+  });
+}
@@ -0,0 +1,156 @@
+import { formatCents } from '../../common/currencies';
+import { DuesBreakdown } from '../../common/dues';
+import type { MemberDues } from './compensation';
+import { CsrfField } from './csrf';
+import type { HistoryEntry } from './history';
+import { makeHtmlResponse, renderDocument } from './html';
+
+export const COMPENSATION_PATH = '/compensation';
+
+const containerStyle = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'stretch',
+  margin: '0 auto',
+  gap: 'var(--container-padding)',
+  padding: 'var(--container-padding)',
+  maxWidth: 'min(400px, 90vw)',
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+} as const;
+
+const buttonStyle = {
+  fontSize: '1.1em',
+  background: 'var(--primary)',
+  padding: '20px 30px',
+  border: 0,
+  borderRadius: 50,
+  color: 'var(--white)',
+} as const;
+
+const inputStyle = {
+  fontSize: '1.4em',
+  padding: 'var(--text-padding)',
+  borderRadius: 'var(--border-radius)',
+  border: 'solid 2px var(--gray-1)',
+} as const;
+
+/**
+ * Lets members update their total compensation when it changes, which
+ * re-prices their dues.
+ */
+export function CompensationSection({
+  dues,
+  history,
+  params,
+  csrfToken,
+}: {
+  dues: MemberDues;
+  history: HistoryEntry[];
+  params: URLSearchParams;
+  csrfToken: string;
+}) {
+  return (
+    <form method="post" action={COMPENSATION_PATH} style={containerStyle}>
+      <CsrfField token={csrfToken} />
+      <h2 style={{ margin: 0 }}>Your dues</h2>
+      {params.has('compensation_updated') && <p style={{ margin: 0 }}>Your total compensation has been updated.</p>}
+      {params.has('compensation_confirmed') && <p style={{ margin: 0 }}>Thanks for confirming your total compensation.</p>}
+      <p style={{ margin: 0 }}>
+        Recorded total compensation: <strong>{dues.totalComp ? `${dues.totalComp} ${dues.currency.toUpperCase()}/yr` : 'unknown'}</strong>
+        <br />
+        Monthly dues: <strong>{formatCents(dues.monthlyTotalCents, dues.currency)}</strong>
+        {dues.policy && (
+          <>
+            <br />
+            <small>
+              Set by version {dues.policy.policyVersion} of the dues policy: {dues.policy.rule.description}.
+            </small>
+          </>
+        )}
+      </p>
+      <label style={{ display: 'flex', flexDirection: 'column', gap: 'var(--text-padding)' }}>
+        Had a raise or a pay cut? Enter your new annual total compensation.
+        <input type="number" name="total-compensation" min="0" required style={inputStyle} />
+      </label>
+      <button type="submit" style={buttonStyle}>
+        Review new dues
+      </button>
+      {dues.confirmationStatus === 'prompted' && (
+        <button type="submit" name="confirm_compensation" value="1" formNoValidate style={buttonStyle}>
+          My total compensation hasn't changed
+        </button>
+      )}
+      {history.length > 0 && (
+        <details>
+          <summary>Past changes</summary>
+          <ul style={{ fontSize: '0.7em' }}>
+            {history.map((entry) => (
+              <li>
+                {new Date(entry.at).toDateString()}: {entry.before || 'unknown'} to {entry.after}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </form>
+  );
+}
+
+/**
+ * Shows the member how their dues will change, before anything is changed.
+ */
+export function compensationConfirmationPage(dues: MemberDues, totalComp: number, after: DuesBreakdown, csrfToken: string): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <form method="post" action={COMPENSATION_PATH} style={containerStyle}>
+        <CsrfField token={csrfToken} />
+        <h1 style={{ margin: 0 }}>Confirm your new dues</h1>
+        <table style={{ borderSpacing: '8px 4px' }}>
+          <thead>
+            <tr>
+              <th></th>
+              <th style={{ textAlign: 'right' }}>Before</th>
+              <th style={{ textAlign: 'right' }}>After</th>
+            </tr>
+          </thead>
+          <tbody>
+            <tr>
+              <th style={{ textAlign: 'left' }}>Total compensation</th>
+              <td style={{ textAlign: 'right' }}>{dues.totalComp ?? 'unknown'}</td>
+              <td style={{ textAlign: 'right' }}>{totalComp}</td>
+            </tr>
+            <tr>
+              <th style={{ textAlign: 'left' }}>Monthly dues</th>
+              <td style={{ textAlign: 'right' }}>{formatCents(dues.monthlyTotalCents, dues.currency)}</td>
+              <td style={{ textAlign: 'right' }}>{formatCents(after.monthlyTotalCents, after.currency)}</td>
+            </tr>
+          </tbody>
+        </table>
+        <p style={{ margin: 0 }}>
+          Your new dues are set by version {after.policyVersion} of the dues policy: {after.rule.description}.{' '}
+          {after.monthlyCardFeeCents > 0 && <>This includes the card processing fee. </>}
+          The new amount will be charged from {after.firstChargeDate.toDateString()}.
+        </p>
+        <input type="hidden" name="total-compensation" value={String(totalComp)} />
+        <button type="submit" name="confirm" value="1" style={buttonStyle}>
+          Update my dues
+        </button>
+        <a href="." style={{ textAlign: 'center' }}>
+          Cancel
+        </a>
+      </form>,
+    ),
+  );
+}
+
+export function compensationErrorPage(message: string): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <div style={containerStyle}>
+        <p style={{ margin: 0 }}>{message}</p>
+        <a href=".">Go back</a>
+      </div>,
+    ),
+  );
+}
@@ -0,0 +1,170 @@
+import Stripe from 'stripe';
+
+import { CURRENCIES, DuesProducts, getProducts } from '../../common/currencies';
+import { calculateDues, checkAnnualTotalComp, DuesBreakdown } from '../../common/dues';
+import { applyDuesPolicy, DUES_POLICY_VERSION, DuesDecision, getDuesPolicyVersion } from '../../common/dues-policy';
+import {
+  COMPENSATION_CONFIRMATION_STATUS,
+  COMPENSATION_CONFIRMED_AT,
+  CompensationConfirmationStatus,
+  MEMBERSHIP_STATUS,
+} from '../../common/membership';
+import { validateField } from '../../signup-worker/src/fields';
+import { getHistory, HistoryEntry, recordHistory } from './history';
+
+const TOTAL_COMPENSATION = 'total-compensation';
+
+/**
+ * What a member currently pays, as billed by their subscription.
+ */
+export interface MemberDues {
+  subscription: Stripe.Subscription;
+  // As recorded in their customer metadata, at signup or by their last change.
+  totalComp?: string;
+  // Whether they've been asked to confirm it this year, and have.
+  confirmationStatus?: CompensationConfirmationStatus;
+  currency: string;
+  employmentType?: string;
+  membershipStatus?: string;
+  monthlyTotalCents: number;
+  paymentMethod: 'card' | 'bank';
+  // What each part of their dues is billed as.
+  products: DuesProducts;
+  // The dues policy rule which set their current dues, if it was recorded.
+  policy?: DuesDecision;
+}
+
+/**
+ * @returns Undefined for customers without a current subscription
+ */
+export async function getMemberDues(customerId: string, env: Env): Promise<MemberDues | undefined> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) {
+    return undefined;
+  }
+  const subscriptions = await stripe.subscriptions.list({ customer: customerId });
+  const subscription = subscriptions.data.find(
+    ({ currency, items }) => currency in CURRENCIES && findItem(items, getProducts(currency, env).dues),
+  );
+  if (!subscription) {
+    return undefined;
+  }
+  const products = getProducts(subscription.currency, env);
+  const totalComp = customer.metadata[TOTAL_COMPENSATION];
+  const employmentType = customer.metadata['employment-type'];
+  const membershipStatus = customer.metadata[MEMBERSHIP_STATUS];
+  const policy = getDuesPolicyVersion(Number(subscription.metadata[DUES_POLICY_VERSION]));
+  return {
+    subscription,
+    totalComp,
+    confirmationStatus: customer.metadata[COMPENSATION_CONFIRMATION_STATUS] as CompensationConfirmationStatus | undefined,
+    currency: subscription.currency,
+    employmentType,
+    membershipStatus,
+    policy:
+      policy &&
+      applyDuesPolicy({ totalComp: Number(totalComp), currency: subscription.currency, employmentType, membershipStatus }, policy),
+    monthlyTotalCents: subscription.items.data.reduce(
+      (total, { price, quantity }) => total + (price.unit_amount ?? 0) * (quantity ?? 1),
+      0,
+    ),
+    // The card fee is kept in step with how the member actually pays.
+    paymentMethod: findItem(subscription.items, products.cardFee) ? 'card' : 'bank',
+    products,
+  };
+}
+
+export async function getCompensationHistory(customerId: string, env: Env): Promise<HistoryEntry[]> {
+  return getHistory(customerId, env, TOTAL_COMPENSATION);
+}
+
+/**
+ * @returns What's wrong with the submitted total compensation, if anything
+ */
+export function validateTotalComp(totalComp: string): string | undefined {
+  return (
+    validateField(TOTAL_COMPENSATION, (name) => (name === TOTAL_COMPENSATION ? totalComp : undefined)) ??
+    checkAnnualTotalComp(Number(totalComp))
+  );
+}
+
+/**
+ * The dues the member would pay after changing their total compensation.
+ */
+export function previewDues(dues: MemberDues, totalComp: number): DuesBreakdown {
+  const { currency, employmentType, membershipStatus } = dues;
+  return calculateDues({ totalComp, currency, employmentType, membershipStatus }, dues.paymentMethod);
+}
+
+/**
+ * Re-price a member's dues for their new total compensation.  Their next
+ * invoice, on the next billing anchor, is the first at the new amount: nothing
+ * already billed is prorated.
+ */
+export async function updateCompensation(customerId: string, totalComp: number, env: Env): Promise<void> {
+  const dues = await getMemberDues(customerId, env);
+  if (!dues) {
+    throw new Error(`${customerId} has no subscription to update.`);
+  }
+  const after = previewDues(dues, totalComp);
+  const { products } = dues;
+  const duesItem = findItem(dues.subscription.items, products.dues);
+  const cardFeeItem = findItem(dues.subscription.items, products.cardFee);
+  const priceData = (product: string, unitAmount: number) => ({
+    currency: dues.currency,
+    product,
+    unit_amount: unitAmount,
+    recurring: { interval: 'month' as const },
+  });
+
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  await stripe.subscriptions.update(dues.subscription.id, {
+    items: [
+      { id: duesItem?.id, price_data: priceData(products.dues, after.monthlyDuesCents) },
+      ...(after.monthlyCardFeeCents
+        ? [{ id: cardFeeItem?.id, price_data: priceData(products.cardFee, after.monthlyCardFeeCents) }]
+        : cardFeeItem
+          ? [{ id: cardFeeItem.id, deleted: true }]
+          : []),
+    ],
+    proration_behavior: 'none',
+    metadata: { [DUES_POLICY_VERSION]: String(after.policyVersion) },
+  });
+  await stripe.customers.update(customerId, { metadata: { [TOTAL_COMPENSATION]: String(totalComp), ...confirmedMetadata() } });
+  await recordHistory(
+    customerId,
+    {
+      at: new Date().toISOString(),
+      change: TOTAL_COMPENSATION,
+      before: dues.totalComp ?? '',
+      after: String(totalComp),
+      details: {
+        currency: dues.currency,
+        monthlyTotalCentsBefore: dues.monthlyTotalCents,
+        monthlyTotalCentsAfter: after.monthlyTotalCents,
+      },
+    },
+    env,
+  );
+}
+
+/**
+ * Record that the member's total compensation is still right, in answer to the
+ * yearly prompt.
+ */
+export async function confirmCompensation(customerId: string, env: Env): Promise<void> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  await stripe.customers.update(customerId, { metadata: confirmedMetadata() });
+}
+
+function confirmedMetadata(): Record<string, string> {
+  return {
+    [COMPENSATION_CONFIRMATION_STATUS]: 'confirmed' satisfies CompensationConfirmationStatus,
+    [COMPENSATION_CONFIRMED_AT]: new Date().toISOString(),
+  };
+}
+
+function findItem(items: Stripe.ApiList<Stripe.SubscriptionItem>, product: string): Stripe.SubscriptionItem | undefined {
+  return items.data.find(({ price }) => (typeof price.product === 'string' ? price.product : price.product.id) === product);
+}
@@ -0,0 +1,69 @@
+import { errorPage } from './error-page';
+
+export const CSRF_FIELD = 'csrf_token';
+
+/**
+ * The CSRF token of a session, which every form that changes anything must
+ * send back.  It's derived from the session token, so it needs no storage and
+ * changes with every login.
+ */
+export async function makeCsrfToken(sessionToken: string, env: Env): Promise<string> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`csrf:${sessionToken}`));
+  return [...new Uint8Array(signature)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Whether a POST came from one of this worker's own pages.  Browsers send
+ * `Origin` with form submissions, and `Referer` is the fallback for those that
+ * leave it out.
+ */
+export function isSameOrigin(request: Request): boolean {
+  const source = request.headers.get('Origin') ?? request.headers.get('Referer');
+  if (!source || source === 'null') {
+    return false;
+  }
+  try {
+    return new URL(source).origin === new URL(request.url).origin;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * @param csrfToken The session's token, see `makeCsrfToken`
+ */
+export function isValidCsrfToken(body: FormData, csrfToken: string): boolean {
+  const submitted = body.get(CSRF_FIELD);
+  if (typeof submitted !== 'string' || submitted.length !== csrfToken.length) {
+    return false;
+  }
+  // Compared in constant time, so the token can't be guessed a character at a
+  // time.
+  let difference = 0;
+  for (let i = 0; i < csrfToken.length; i++) {
+    difference |= submitted.charCodeAt(i) ^ csrfToken.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+export function CsrfField({ token }: { token: string }) {
+  return <input type="hidden" name={CSRF_FIELD} value={token} />;
+}
+
+/**
+ * For POSTs from other sites, or from pages of an earlier session.
+ *
+ * @param back Where to start again from
+ */
+export function csrfErrorPage(back: string): Response {
+  return errorPage(
+    403,
+    "That didn't work",
+    "The form you submitted had expired, or didn't come from this site, so nothing was changed. If you were logged out or logged in again since opening it, please try again from a fresh page.",
+    back,
+  );
+}
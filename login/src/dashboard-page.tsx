@@ -0,0 +1,126 @@
+import type Stripe from 'stripe';
+
+import { formatCents } from '../../common/currencies';
+import { MEMBERSHIP_STATUS } from '../../common/membership';
+import type { MemberDues } from './compensation';
+import { DASHBOARD_STATUS_LABELS, getDashboardStatus, getDuesLineItems, getNextChargeDate, InvoiceSummary } from './dashboard';
+
+// Redirects to Stripe's billing portal, where members manage how they pay.
+export const STRIPE_PORTAL_PATH = '/stripe-portal';
+
+const containerStyle = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'stretch',
+  margin: '0 auto',
+  gap: 'var(--container-padding)',
+  padding: 'var(--container-padding)',
+  maxWidth: 'min(400px, 90vw)',
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+} as const;
+
+const cellStyle = { padding: '4px 0' } as const;
+
+const amountStyle = { ...cellStyle, textAlign: 'right' } as const;
+
+const INVOICE_STATUS_LABELS: Record<string, string> = {
+  open: 'Due',
+  paid: 'Paid',
+  uncollectible: 'Failed',
+  void: 'Voided',
+};
+
+/**
+ * The member's status, what they pay and when, and their recent invoices, with
+ * the way into the Stripe billing portal to manage them.
+ *
+ * @param manageBilling False while the member has legacy payment sources, which
+ *     must be removed before the portal can be used
+ */
+export function DashboardSection({
+  customer,
+  dues,
+  invoices,
+  manageBilling,
+}: {
+  customer: Stripe.Customer;
+  dues?: MemberDues;
+  invoices: InvoiceSummary[];
+  manageBilling: boolean;
+}) {
+  const status = getDashboardStatus(customer, dues?.subscription);
+  const setupIncomplete = ['payment-setup-incomplete', 'payment-setup-failed'].includes(customer.metadata[MEMBERSHIP_STATUS] ?? '');
+  const nextCharge = dues && getNextChargeDate(dues.subscription);
+  return (
+    <div style={containerStyle}>
+      <h2 style={{ margin: 0 }}>Your membership</h2>
+      <p style={{ margin: 0 }}>
+        Status: <strong>{DASHBOARD_STATUS_LABELS[status]}</strong>
+      </p>
+      {status === 'pending' && !setupIncomplete && (
+        <p style={{ margin: 0 }}>The Membership Committee is reviewing your application. Your dues will be charged once it's approved.</p>
+      )}
+      {status === 'in-arrears' && <p style={{ margin: 0 }}>Your latest dues payment failed. Please check your payment method.</p>}
+      {dues && (
+        <table style={{ borderCollapse: 'collapse' }}>
+          <caption style={{ textAlign: 'left', fontWeight: 'bold' }}>Monthly dues</caption>
+          <tbody>
+            {getDuesLineItems(dues.subscription, dues.products).map(({ description, amountCents }) => (
+              <tr>
+                <td style={cellStyle}>{description}</td>
+                <td style={amountStyle}>{formatCents(amountCents, dues.currency)}</td>
+              </tr>
+            ))}
+            <tr style={{ borderTop: 'solid 2px var(--gray-1)' }}>
+              <th style={{ ...cellStyle, textAlign: 'left' }}>Total</th>
+              <th style={amountStyle}>{formatCents(dues.monthlyTotalCents, dues.currency)}</th>
+            </tr>
+          </tbody>
+        </table>
+      )}
+      {nextCharge && <p style={{ margin: 0 }}>Next charge: {nextCharge.toDateString()}</p>}
+      {invoices.length > 0 && (
+        <table style={{ borderCollapse: 'collapse' }}>
+          <caption style={{ textAlign: 'left', fontWeight: 'bold' }}>Recent payments</caption>
+          <tbody>
+            {invoices.map((invoice) => {
+              const label = INVOICE_STATUS_LABELS[invoice.status ?? ''] ?? invoice.status;
+              return (
+                <tr>
+                  <td style={cellStyle}>{invoice.created.toDateString()}</td>
+                  <td style={cellStyle}>{invoice.receiptUrl ? <a href={invoice.receiptUrl}>{label}</a> : label}</td>
+                  <td style={amountStyle}>{formatCents(invoice.totalCents, invoice.currency)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {manageBilling && (
+        <>
+          {setupIncomplete ? (
+            <p style={{ margin: 0 }}>Your application isn't complete until you add a payment method in the Stripe billing portal.</p>
+          ) : (
+            <p style={{ margin: 0 }}>Your billing details can be managed in the Stripe billing portal.</p>
+          )}
+          <a
+            href={STRIPE_PORTAL_PATH}
+            style={{
+              fontSize: '1.1em',
+              background: 'var(--primary)',
+              padding: '20px 30px',
+              border: 0,
+              borderRadius: 50,
+              color: 'var(--white)',
+              textDecoration: 'none',
+              textAlign: 'center',
+            }}
+          >
+            Open Stripe billing portal
+          </a>
+        </>
+      )}
+    </div>
+  );
+}
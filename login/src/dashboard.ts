@@ -0,0 +1,136 @@
+import Stripe from 'stripe';
+
+import type { DuesProducts } from '../../common/currencies';
+import { MEMBERSHIP_STATUS, MembershipStatus } from '../../common/membership';
+
+/**
+ * Where a member stands, in the terms they're shown it in.  Applicants who
+ * haven't been approved yet are all `pending`, whatever step they're at.
+ */
+export type DashboardStatus = 'pending' | 'active' | 'paused' | 'in-arrears' | 'canceled';
+
+export const DASHBOARD_STATUS_LABELS: Record<DashboardStatus, string> = {
+  pending: 'Application pending',
+  active: 'Active',
+  paused: 'Dues paused',
+  'in-arrears': 'In arrears',
+  canceled: 'Canceled',
+};
+
+/**
+ * One part of what a member pays every month, such as their dues or the card
+ * processing fee.
+ */
+export interface DuesLineItem {
+  description: string;
+  amountCents: number;
+}
+
+/**
+ * A past charge, or one being collected.
+ */
+export interface InvoiceSummary {
+  id: string;
+  created: Date;
+  totalCents: number;
+  currency: string;
+  status: Stripe.Invoice.Status | null;
+  // Stripe's page for the invoice, which is the receipt once it's paid.
+  receiptUrl?: string;
+}
+
+// How many invoices the dashboard lists.
+const RECENT_INVOICES = 12;
+
+const STATUSES: Record<MembershipStatus, DashboardStatus> = {
+  'payment-setup-incomplete': 'pending',
+  'payment-setup-failed': 'pending',
+  'pending-approval': 'pending',
+  active: 'active',
+  'in-arrears': 'in-arrears',
+  canceled: 'canceled',
+};
+
+/**
+ * The member's status as kept up to date by the signup worker, or `paused`
+ * while collection of their dues is paused.  Collection is also paused while
+ * an application is pending, so that's checked first.  Customers who signed
+ * up before statuses were recorded get one from their subscription instead.
+ */
+export function getDashboardStatus(customer: Stripe.Customer, subscription?: Stripe.Subscription): DashboardStatus {
+  const membershipStatus = customer.metadata[MEMBERSHIP_STATUS] as MembershipStatus | undefined;
+  const status = membershipStatus && membershipStatus in STATUSES ? STATUSES[membershipStatus] : undefined;
+  if (status === 'pending') {
+    return status;
+  }
+  if (subscription?.pause_collection) {
+    return 'paused';
+  }
+  if (status) {
+    return status;
+  }
+  switch (subscription?.status) {
+    case 'active':
+    case 'trialing':
+      return 'active';
+    case 'past_due':
+    case 'unpaid':
+      return 'in-arrears';
+    case 'incomplete':
+    case 'paused':
+      return 'pending';
+    default:
+      return 'canceled';
+  }
+}
+
+/**
+ * The monthly charges of the subscription, by what they're for.
+ */
+export function getDuesLineItems(subscription: Stripe.Subscription, products: DuesProducts): DuesLineItem[] {
+  const descriptions: Record<string, string | undefined> = {
+    [products.dues]: 'Dues',
+    [products.cardFee]: 'Card processing fee',
+  };
+  return subscription.items.data.map(({ price, quantity }) => {
+    const product = typeof price.product === 'string' ? price.product : price.product.id;
+    return {
+      description: descriptions[product] ?? price.nickname ?? 'Other',
+      amountCents: (price.unit_amount ?? 0) * (quantity ?? 1),
+    };
+  });
+}
+
+/**
+ * @returns Undefined if no further charges are due: the subscription has
+ *     ended or is ending, or is paused indefinitely
+ */
+export function getNextChargeDate(subscription: Stripe.Subscription): Date | undefined {
+  if (subscription.status === 'canceled' || subscription.cancel_at_period_end) {
+    return undefined;
+  }
+  if (subscription.pause_collection) {
+    const resumesAt = subscription.pause_collection.resumes_at;
+    return resumesAt ? new Date(resumesAt * 1000) : undefined;
+  }
+  return new Date(subscription.current_period_end * 1000);
+}
+
+/**
+ * @returns The member's latest invoices, most recent first, leaving out drafts
+ *     which they haven't been charged for yet
+ */
+export async function getRecentInvoices(customerId: string, env: Env): Promise<InvoiceSummary[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const invoices = await stripe.invoices.list({ customer: customerId, limit: RECENT_INVOICES });
+  return invoices.data
+    .filter(({ status }) => status !== 'draft')
+    .map((invoice) => ({
+      id: invoice.id,
+      created: new Date(invoice.created * 1000),
+      totalCents: invoice.total,
+      currency: invoice.currency,
+      status: invoice.status,
+      receiptUrl: invoice.hosted_invoice_url ?? undefined,
+    }));
+}
@@ -0,0 +1,86 @@
+import { CsrfField } from './csrf';
+import { DUES_PAUSE_REASONS, DuesPause } from './dues-pause';
+
+export const DUES_PAUSE_PATH = '/dues-pause';
+
+const containerStyle = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'stretch',
+  margin: '0 auto',
+  gap: 'var(--container-padding)',
+  padding: 'var(--container-padding)',
+  maxWidth: 'min(400px, 90vw)',
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+} as const;
+
+const inputStyle = {
+  fontSize: '1em',
+  padding: 'var(--text-padding)',
+  borderRadius: 'var(--border-radius)',
+  border: 'solid 2px var(--gray-1)',
+} as const;
+
+const labelStyle = { display: 'flex', flexDirection: 'column', gap: 'var(--text-padding)' } as const;
+
+/**
+ * Lets members on leave or in hardship ask the Membership Committee to pause
+ * their dues, and shows how their latest request is going.
+ */
+export function DuesPauseSection({ pause, params, csrfToken }: { pause?: DuesPause; params: URLSearchParams; csrfToken: string }) {
+  const error = params.get('pause_error');
+  if (pause && (pause.status === 'requested' || pause.status === 'approved' || pause.status === 'paused')) {
+    return (
+      <div style={containerStyle}>
+        <h2 style={{ margin: 0 }}>Dues pause</h2>
+        <p style={{ margin: 0 }}>
+          {pause.status === 'requested' && <>Your request is waiting for the Membership Committee. </>}
+          {pause.status === 'approved' && <>Your request has been approved. </>}
+          {pause.status === 'paused' && <>Your dues are paused. </>}
+          Dues are paused from {pause.start} until {pause.end}, for {DUES_PAUSE_REASONS[pause.reason] ?? pause.reason}.
+        </p>
+      </div>
+    );
+  }
+  return (
+    <form method="post" action={DUES_PAUSE_PATH} style={containerStyle}>
+      <CsrfField token={csrfToken} />
+      <h2 style={{ margin: 0 }}>Pause your dues</h2>
+      {error && <p style={{ margin: 0 }}>{error}</p>}
+      {pause?.status === 'rejected' && <p style={{ margin: 0 }}>Your last request wasn't approved.</p>}
+      <p style={{ margin: 0 }}>
+        On parental leave, on unpaid leave or facing financial hardship? Ask the Membership Committee to pause your dues.
+      </p>
+      <label style={labelStyle}>
+        Reason
+        <select name="pause_reason" required style={inputStyle}>
+          {Object.entries(DUES_PAUSE_REASONS).map(([value, label]) => (
+            <option value={value}>{label}</option>
+          ))}
+        </select>
+      </label>
+      <label style={labelStyle}>
+        Pause from
+        <input type="date" name="pause_start" required style={inputStyle} />
+      </label>
+      <label style={labelStyle}>
+        Expected to end
+        <input type="date" name="pause_end" required style={inputStyle} />
+      </label>
+      <button
+        type="submit"
+        style={{
+          fontSize: '1.1em',
+          background: 'var(--primary)',
+          padding: '20px 30px',
+          border: 0,
+          borderRadius: 50,
+          color: 'var(--white)',
+        }}
+      >
+        Request dues pause
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,240 @@
+import Stripe from 'stripe';
+
+import {
+  DUES_PAUSE_DECISION_AT,
+  DUES_PAUSE_DECISION_BY,
+  DUES_PAUSE_END,
+  DUES_PAUSE_REASON,
+  DUES_PAUSE_START,
+  DUES_PAUSE_STATUS,
+  DuesPauseStatus,
+} from '../../common/membership';
+import type { Decision } from './admin';
+import { getDashboardStatus } from './dashboard';
+import { sendDuesPauseEmail } from './sendgrid';
+
+/**
+ * The reasons members can give for pausing their dues, by the value stored.
+ */
+export const DUES_PAUSE_REASONS: Record<string, string> = {
+  'parental-leave': 'Parental leave',
+  'unpaid-leave': 'Unpaid leave',
+  hardship: 'Financial hardship',
+};
+
+/**
+ * A member's latest request to pause their dues.
+ */
+export interface DuesPause {
+  status: DuesPauseStatus;
+  reason: string;
+  // ISO 8601 dates, like `2024-06-01`.
+  start: string;
+  end: string;
+}
+
+export interface DuesPauseRequest {
+  customer: Stripe.Customer;
+  pause: DuesPause;
+}
+
+// Statuses of a request which is still to run its course, so the member can't
+// make another.
+const OPEN_STATUSES: DuesPauseStatus[] = ['requested', 'approved', 'paused'];
+
+/**
+ * @returns Undefined if the member has never asked to pause their dues
+ */
+export function getDuesPause(customer: Stripe.Customer): DuesPause | undefined {
+  const status = customer.metadata[DUES_PAUSE_STATUS] as DuesPauseStatus | undefined;
+  return (
+    status && {
+      status,
+      reason: customer.metadata[DUES_PAUSE_REASON] ?? '',
+      start: customer.metadata[DUES_PAUSE_START] ?? '',
+      end: customer.metadata[DUES_PAUSE_END] ?? '',
+    }
+  );
+}
+
+/**
+ * @returns What's wrong with the submitted request, if anything
+ */
+export function validateDuesPause(reason: string, start: string, end: string, now = new Date()): string | undefined {
+  if (!(reason in DUES_PAUSE_REASONS)) {
+    return 'Choose a reason for pausing your dues.';
+  }
+  if (!isDate(start) || !isDate(end)) {
+    return 'Enter the dates your dues should pause from and until.';
+  }
+  if (start < toDate(now)) {
+    return "Dues can't be paused from a date in the past.";
+  }
+  if (end <= start) {
+    return 'The pause must end after it starts.';
+  }
+  return undefined;
+}
+
+/**
+ * Ask the Membership Committee to pause the member's dues.  Only active members
+ * can: an applicant's dues are already paused until they're approved, and
+ * approving a pause would start collecting them when it ends.
+ *
+ * @returns Why the member can't ask, if they can't
+ */
+export async function requestDuesPause(
+  customerId: string,
+  reason: string,
+  start: string,
+  end: string,
+  env: Env,
+): Promise<string | undefined> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) {
+    throw new Error(`${customerId} has been deleted.`);
+  }
+  const subscriptions = await stripe.subscriptions.list({ customer: customerId, status: 'active' });
+  if (getDashboardStatus(customer, subscriptions.data[0]) !== 'active') {
+    return 'Only active members can pause their dues.';
+  }
+  const current = getDuesPause(customer);
+  if (current && OPEN_STATUSES.includes(current.status)) {
+    throw new Error(`${customerId} already has a dues pause ${current.status}.`);
+  }
+  const pause: DuesPause = { status: 'requested', reason, start, end };
+  await stripe.customers.update(customerId, {
+    metadata: {
+      [DUES_PAUSE_STATUS]: pause.status,
+      [DUES_PAUSE_REASON]: pause.reason,
+      [DUES_PAUSE_START]: pause.start,
+      [DUES_PAUSE_END]: pause.end,
+      // Cleared from any earlier request.
+      [DUES_PAUSE_DECISION_BY]: '',
+      [DUES_PAUSE_DECISION_AT]: '',
+    },
+  });
+  await notify(customer, pause, env);
+  return undefined;
+}
+
+/**
+ * Requests waiting for the committee's decision, oldest first.
+ */
+export async function listDuesPauseRequests(env: Env): Promise<DuesPauseRequest[]> {
+  return (await searchDuesPauses('requested', env)).sort((a, b) => a.pause.start.localeCompare(b.pause.start));
+}
+
+/**
+ * Approve or reject a request.  Approved pauses which have already started
+ * take effect straight away, and the rest on their start date.
+ */
+export async function decideDuesPause(customerId: string, decision: Decision, committeeMember: string, env: Env): Promise<void> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  const pause = customer.deleted ? undefined : getDuesPause(customer);
+  if (customer.deleted || pause?.status !== 'requested') {
+    throw new Error(`${customerId} does not have a pending dues pause request.`);
+  }
+  const decided: DuesPause = { ...pause, status: decision === 'approve' ? 'approved' : 'rejected' };
+  await stripe.customers.update(customerId, {
+    metadata: {
+      [DUES_PAUSE_STATUS]: decided.status,
+      [DUES_PAUSE_DECISION_BY]: committeeMember,
+      [DUES_PAUSE_DECISION_AT]: new Date().toISOString(),
+    },
+  });
+  await notify(customer, decided, env);
+  if (decided.status === 'approved' && decided.start <= toDate(new Date())) {
+    await startDuesPause(customer, decided, stripe, env);
+  }
+}
+
+/**
+ * Start approved pauses on their start date, and record the end of pauses
+ * which Stripe has resumed collection for.  Run daily.
+ */
+export async function runScheduledDuesPauses(env: Env, now = new Date()): Promise<void> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const today = toDate(now);
+  for (const { customer, pause } of await searchDuesPauses('approved', env)) {
+    if (pause.start <= today) {
+      await tryStep(customer, 'start', () => startDuesPause(customer, pause, stripe, env));
+    }
+  }
+  for (const { customer, pause } of await searchDuesPauses('paused', env)) {
+    if (pause.end <= today) {
+      await tryStep(customer, 'end', async () => {
+        const ended: DuesPause = { ...pause, status: 'ended' };
+        await stripe.customers.update(customer.id, { metadata: { [DUES_PAUSE_STATUS]: ended.status } });
+        await notify(customer, ended, env);
+      });
+    }
+  }
+}
+
+/**
+ * Stop collecting dues until the end date, when Stripe resumes collection by
+ * itself.  Invoices in the meantime are voided, so nothing is owed for them.
+ */
+async function startDuesPause(customer: Stripe.Customer, pause: DuesPause, stripe: Stripe, env: Env): Promise<void> {
+  const subscriptions = await stripe.subscriptions.list({ customer: customer.id, status: 'active' });
+  const subscription = subscriptions.data[0] as Stripe.Subscription | undefined;
+  if (!subscription) {
+    throw new Error(`${customer.id} has no subscription to pause.`);
+  }
+  await stripe.subscriptions.update(subscription.id, {
+    pause_collection: {
+      behavior: 'void',
+      resumes_at: Math.floor(new Date(`${pause.end}T00:00:00Z`).getTime() / 1000),
+    },
+  });
+  const paused: DuesPause = { ...pause, status: 'paused' };
+  await stripe.customers.update(customer.id, { metadata: { [DUES_PAUSE_STATUS]: paused.status } });
+  await notify(customer, paused, env);
+}
+
+/**
+ * Failures are logged rather than thrown, since each step is recorded before
+ * the member is emailed about it, and retrying would find it already taken.
+ */
+async function notify(customer: Stripe.Customer, pause: DuesPause, env: Env): Promise<void> {
+  try {
+    await sendDuesPauseEmail(customer, { ...pause, reason: DUES_PAUSE_REASONS[pause.reason] ?? pause.reason }, env);
+  } catch (e) {
+    console.error(`Couldn't email ${customer.id} that their dues pause is ${pause.status}.`, e);
+  }
+}
+
+async function searchDuesPauses(status: DuesPauseStatus, env: Env): Promise<DuesPauseRequest[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customers = await stripe.customers.search({
+    query: `metadata['${DUES_PAUSE_STATUS}']:'${status}'`,
+    limit: 100,
+  });
+  return customers.data.flatMap((customer) => {
+    const pause = getDuesPause(customer);
+    return pause ? [{ customer, pause }] : [];
+  });
+}
+
+/**
+ * Failures are logged rather than thrown, so that one member's pause doesn't
+ * hold up everyone else's.  They're retried on the next run.
+ */
+async function tryStep(customer: Stripe.Customer, step: string, run: () => Promise<void>): Promise<void> {
+  try {
+    await run();
+  } catch (e) {
+    console.error(`Couldn't ${step} the dues pause of ${customer.id}.`, e);
+  }
+}
+
+function isDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+function toDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,54 @@
+import { makeHtmlResponse, renderDocument } from './html';
+
+/**
+ * A page explaining why a request couldn't be handled.
+ *
+ * @param back Where to start again from
+ */
+export function errorPage(status: number, title: string, message: string, back = '/'): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--container-padding)',
+          margin: '0 auto',
+          padding: 'var(--container-padding)',
+          maxWidth: 'min(400px, 90vw)',
+          background: 'var(--white)',
+          borderRadius: 'var(--border-radius)',
+        }}
+      >
+        <h1 style={{ margin: 0 }}>{title}</h1>
+        <p style={{ margin: 0 }}>{message}</p>
+        <a href={back}>Start again</a>
+      </div>,
+    ),
+    status,
+  );
+}
+
+export function notFoundPage(): Response {
+  return errorPage(404, 'Page not found', "There's nothing here. The link you followed may be mistyped or out of date.");
+}
+
+/**
+ * @param allowed The methods the path does accept
+ */
+export function methodNotAllowedPage(allowed: string[]): Response {
+  const response = errorPage(405, 'Not allowed', "This page can't be used that way.");
+  response.headers.set('Allow', allowed.join(', '));
+  return response;
+}
+
+/**
+ * For unexpected errors, such as Stripe being unavailable.
+ */
+export function internalErrorPage(): Response {
+  return errorPage(
+    500,
+    'Something went wrong',
+    'Your request could not be completed, and may not have been saved. Please try again later, or contact the membership committee.',
+  );
+}
@@ -0,0 +1,34 @@
+/**
+ * A change a member made to their membership.
+ */
+export interface HistoryEntry {
+  // ISO 8601 date of the change.
+  at: string;
+  // What was changed, e.g. a metadata key like `total-compensation`.
+  change: string;
+  before: string;
+  after: string;
+  // Anything else worth knowing about the change, such as the dues it led to.
+  details?: Record<string, string | number>;
+}
+
+/**
+ * Append a change to the customer's history.  Entries are never overwritten, so
+ * the history is a complete record of changes made through this worker.
+ */
+export async function recordHistory(customerId: string, entry: HistoryEntry, env: Env): Promise<void> {
+  // Keys sort by time, and the random suffix keeps simultaneous changes apart.
+  const key = `${customerId}/${entry.at}/${crypto.randomUUID()}`;
+  await env.MEMBER_HISTORY.put(key, JSON.stringify(entry));
+}
+
+/**
+ * @returns The customer's changes, most recent first
+ */
+export async function getHistory(customerId: string, env: Env, change?: string): Promise<HistoryEntry[]> {
+  const { keys } = await env.MEMBER_HISTORY.list({ prefix: `${customerId}/` });
+  const entries = await Promise.all(keys.map(({ name }) => env.MEMBER_HISTORY.get<HistoryEntry>(name, 'json')));
+  return entries
+    .filter((entry): entry is HistoryEntry => !!entry && (!change || entry.change === change))
+    .sort((a, b) => b.at.localeCompare(a.at));
+}
@@ -3,8 +3,8 @@ import { render } from 'preact-render-to-string';
 
 const doctype = '<!DOCTYPE html>';
 
-export function makeHtmlResponse(body: string) {
-  return new Response(body, { headers: { 'content-type': 'text/html' } });
+export function makeHtmlResponse(body: string, status = 200) {
+  return new Response(body, { status, headers: { 'content-type': 'text/html' } });
 }
 
 export function renderDocument(content: VNode) {
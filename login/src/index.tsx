@@ -1,118 +1,324 @@
-import { decode, sign, verify } from '@tsndr/cloudflare-worker-jwt';
 import Stripe from 'stripe';
-import { serialize, parse } from 'cookie';
 
-import { loginPage } from './login-page';
-import { memberPage, getSourceIds } from './member-page';
-import { sendLoginEmail } from './sendgrid';
+import { CHALLENGE_FIELD, verifyChallenge } from '../../common/challenge';
+import { isAuthorizedLoginLinkRequest, LOGIN_LINK_API_PATH } from '../../common/login-link-api';
+import { isRateLimited, KvCounterStore, RateLimit } from '../../common/rate-limit';
+
+import { adminRoutes } from './admin';
+import { confirmCompensation, getMemberDues, previewDues, updateCompensation, validateTotalComp } from './compensation';
+import { promptCompensationConfirmations } from './compensation-confirmation';
+import { COMPENSATION_PATH, compensationConfirmationPage, compensationErrorPage } from './compensation-page';
+import { STRIPE_PORTAL_PATH } from './dashboard-page';
+import { requestDuesPause, runScheduledDuesPauses, validateDuesPause } from './dues-pause';
+import { DUES_PAUSE_PATH } from './dues-pause-page';
+import { errorPage } from './error-page';
+import {
+  isValidChoice,
+  makeChoiceToken,
+  makeEmailConfirmationLink,
+  makeLoginLink,
+  urlWithParam,
+  useEmailConfirmationToken,
+  useLoginToken,
+} from './login-link';
+import { chooseMembershipPage, continueLoginPage, loginPage } from './login-page';
+import { DELETE_SOURCE_PATH, memberPage, getCustomer, getSourceIds } from './member-page';
+import { getCustomers } from './memberships';
+import { confirmEmailChange, ProfileChange, updateProfile, validateProfile } from './profile';
+import { CONFIRM_EMAIL_PATH, confirmEmailPage, PROFILE_PATH, profilePage } from './profile-page';
+import { resignMembership } from './resignation';
+import { RESIGNATION_PATH, resignationPage } from './resignation-page';
+import {
+  FormContext,
+  handleRoute,
+  MemberContext,
+  MemberFormContext,
+  requireMemberForm,
+  requireSession,
+  RouteContext,
+  Routes,
+  SessionContext,
+  withForm,
+  withSession,
+} from './router';
+import { sendEmailConfirmationEmail, sendLoginEmail } from './sendgrid';
+import { logout, LOGOUT_PATH, redirectWithSession } from './session';
+
+const routes: Routes = {
+  ...adminRoutes,
+  '/': { GET: withSession(handleHome), POST: withForm(handleLoginForm) },
+  [LOGIN_LINK_API_PATH]: { POST: handleLoginLinkApiRequest },
+  [LOGOUT_PATH]: { POST: requireMemberForm(({ request, env, body }) => logout(request, env, body.has('everywhere'))) },
+  [STRIPE_PORTAL_PATH]: { GET: requireSession(({ env, session }) => redirectToStripePortal(session.customerId, env)) },
+  [DELETE_SOURCE_PATH]: { POST: requireMemberForm(handleDeleteSource) },
+  [COMPENSATION_PATH]: { POST: requireMemberForm(handleCompensationChange) },
+  [DUES_PAUSE_PATH]: { POST: requireMemberForm(handleDuesPauseRequest) },
+  [PROFILE_PATH]: { GET: requireSession(handleProfile), POST: requireMemberForm(handleProfileChange) },
+  [CONFIRM_EMAIL_PATH]: { GET: ({ url }) => confirmEmailPage(url.searchParams), POST: withForm(handleEmailConfirmation) },
+  [RESIGNATION_PATH]: { GET: requireSession(handleResignationPage), POST: requireMemberForm(handleResignation) },
+};
 
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
-    const sessionToken: string = parse(request.headers.get('cookie') ?? '').session_token;
-    const session = sessionToken && (await verify(sessionToken, env.LOGIN_LINK_SECRET)) ? decode(sessionToken).payload : undefined;
-    const customerId = session?.sub;
-    if (request.method === 'POST') {
-      const body = await request.formData();
-      if (body.get('email')) {
-        const email = String(body.get('email') ?? '');
-        const customerId = await getCustomerIdByEmail(email, env);
-        if (customerId) {
-          try {
-            const loginLink = await makeLoginLink(request.url, customerId, env);
-            await sendLoginEmail(email, loginLink, env);
-          } catch (e) {
-            console.error(e);
-            return Response.redirect(urlWithParam(request.url, 'failure'));
-          }
-        }
-        return Response.redirect(urlWithParam(request.url, 'link_sent'));
-      } else if (body.get('delete_source') && customerId) {
-        await deleteCustomerSource(customerId, env);
-        return Response.redirect(new URL('stripe-portal', request.url));
-      } else {
-        return Response.redirect(new URL('', request.url).toString());
-      }
-    } else {
-      const url = new URL(request.url);
-      const params = url.searchParams;
-      const loginToken = params.get('login_token');
-      if (url.pathname === '/stripe-portal' && customerId) {
-        return redirectToStripePortal(customerId, env);
-      } else if (loginToken && (await verify(loginToken, env.LOGIN_LINK_SECRET))) {
-        const customerId = decode(loginToken).payload?.sub;
-        if (customerId) {
-          return redirectWithSession(customerId, request, env);
-        } else {
-          return Response.redirect(new URL('', request.url).toString());
-        }
-      } else if (customerId) {
-        return memberPage(customerId, env);
-      } else {
-        return loginPage(params);
-      }
-    }
+  fetch(request: Request, env: Env): Promise<Response> {
+    return handleRoute(routes, request, env);
+  },
+
+  scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): void {
+    ctx.waitUntil(Promise.all([promptCompensationConfirmations(env), runScheduledDuesPauses(env)]));
   },
 };
 
-async function deleteCustomerSource(customerId: string, env: Env): Promise<void> {
-  const sourceIds = await getSourceIds(customerId, env);
+function handleHome({ env, url, session }: SessionContext): Promise<Response> | Response {
+  const loginToken = url.searchParams.get('login_token');
+  if (loginToken) {
+    // Logging in takes a click, so that links opened by email scanners
+    // aren't used up before the member gets to them.
+    return continueLoginPage(loginToken);
+  } else if (session) {
+    return memberPage(session, env, url.searchParams);
+  } else {
+    return loginPage(url.searchParams, env.TURNSTILE_SITE_KEY);
+  }
+}
+
+/**
+ * The forms of the login page, and the pages that login links lead to.
+ */
+async function handleLoginForm({ request, env, body }: FormContext): Promise<Response> {
+  const loginToken = body.get('login_token');
+  const choiceToken = body.get('choice_token');
+  const chosenCustomerId = body.get('customer');
+  if (typeof loginToken === 'string' && loginToken) {
+    return handleLogin(loginToken, request, env);
+  } else if (typeof choiceToken === 'string' && choiceToken && typeof chosenCustomerId === 'string') {
+    return (await isValidChoice(choiceToken, chosenCustomerId, env))
+      ? redirectWithSession(chosenCustomerId, request, env)
+      : Response.redirect(urlWithParam(request.url, 'link_invalid'));
+  } else if (body.get('email')) {
+    return handleLoginLinkRequest(body, request, env);
+  } else {
+    return Response.redirect(request.url);
+  }
+}
+
+/**
+ * Log in with a login link, first asking which membership to manage if the
+ * link was for several.
+ */
+async function handleLogin(loginToken: string, request: Request, env: Env): Promise<Response> {
+  const customerIds = await useLoginToken(loginToken, env);
+  if (!customerIds) {
+    return Response.redirect(urlWithParam(request.url, 'link_invalid'));
+  } else if (customerIds.length === 1) {
+    return redirectWithSession(customerIds[0], request, env);
+  }
+  const [customers, choiceToken] = await Promise.all([getCustomers(customerIds, env), makeChoiceToken(customerIds, env)]);
+  return chooseMembershipPage(customers, choiceToken);
+}
+
+// Limits on login links requested from one IP address, which may be shared by a
+// whole office, and for one email address.
+const IP_RATE_LIMIT: RateLimit = { limit: 20, windowSeconds: 60 * 60 };
+const EMAIL_RATE_LIMIT: RateLimit = { limit: 5, windowSeconds: 60 * 60 };
+
+/**
+ * Email a login link to the member with the given email, if there is one.
+ * Whether there is isn't revealed, and requests over the rate limits or
+ * without a solved challenge are turned away before looking.
+ */
+async function handleLoginLinkRequest(body: FormData, request: Request, env: Env): Promise<Response> {
+  const email = String(body.get('email') ?? '');
+  const ip = request.headers.get('CF-Connecting-IP');
+  if (
+    await isRateLimited(new KvCounterStore(env.RATE_LIMITS), [
+      { key: ip && `login-ip:${ip}`, rateLimit: IP_RATE_LIMIT },
+      { key: `login-email:${email.toLowerCase()}`, rateLimit: EMAIL_RATE_LIMIT },
+    ])
+  ) {
+    return loginPage(new URLSearchParams('rate_limited'), env.TURNSTILE_SITE_KEY, 429);
+  }
+  const challengeToken = body.get(CHALLENGE_FIELD);
+  if (!(await verifyChallenge(typeof challengeToken === 'string' ? challengeToken : null, env.TURNSTILE_SECRET_KEY, ip))) {
+    return Response.redirect(urlWithParam(request.url, 'challenge_failed'));
+  }
+  try {
+    await sendLoginLink(email, request.url, env);
+  } catch (e) {
+    console.error(e);
+    return Response.redirect(urlWithParam(request.url, 'failure'));
+  }
+  return Response.redirect(urlWithParam(request.url, 'link_sent'));
+}
+
+/**
+ * For the signup worker, which emails login links to applicants who are
+ * already members.  It authenticates with a shared key instead of solving a
+ * challenge, but the limit per email address still applies.
+ */
+async function handleLoginLinkApiRequest({ request, env, url }: RouteContext): Promise<Response> {
+  if (!isAuthorizedLoginLinkRequest(request, env.LOGIN_LINK_API_KEY)) {
+    return new Response('', { status: 401 });
+  }
+  const email = String((await request.formData()).get('email') ?? '');
+  if (!email) {
+    return new Response('', { status: 400 });
+  } else if (
+    await isRateLimited(new KvCounterStore(env.RATE_LIMITS), [{ key: `login-email:${email.toLowerCase()}`, rateLimit: EMAIL_RATE_LIMIT }])
+  ) {
+    return new Response('', { status: 429 });
+  }
+  await sendLoginLink(email, new URL('/', url).toString(), env);
+  return new Response(null, { status: 204 });
+}
+
+/**
+ * Email a login link to the member with the given email, if there is one.
+ *
+ * @param loginUrl The login page, which the link leads to
+ */
+async function sendLoginLink(email: string, loginUrl: string, env: Env): Promise<void> {
+  const customerIds = await getCustomerIdsByEmail(email, env);
+  if (customerIds.length) {
+    await sendLoginEmail(email, await makeLoginLink(loginUrl, customerIds, env), env);
+  }
+}
+
+/**
+ * Removes the member's legacy ACH sources, then takes them to the billing
+ * portal to add a new payment method.
+ */
+async function handleDeleteSource({ url, env, session }: MemberFormContext): Promise<Response> {
+  const sourceIds = await getSourceIds(session.customerId, env);
   const stripe = new Stripe(env.STRIPE_API_KEY);
-  await Promise.all(sourceIds.map((sourceId) => stripe.customers.deleteSource(customerId, sourceId)));
+  await Promise.all(sourceIds.map((sourceId) => stripe.customers.deleteSource(session.customerId, sourceId)));
+  return Response.redirect(new URL(STRIPE_PORTAL_PATH, url).toString());
+}
+
+/**
+ * Members first see how their dues would change, then confirm the change.
+ * Members prompted to check their compensation can also confirm it's
+ * unchanged.
+ */
+async function handleCompensationChange({ url, env, body, session }: MemberFormContext): Promise<Response> {
+  if (body.get('confirm_compensation')) {
+    await confirmCompensation(session.customerId, env);
+    return Response.redirect(homeUrl(url, 'compensation_confirmed'));
+  }
+  const totalComp = String(body.get('total-compensation'));
+  const error = validateTotalComp(totalComp);
+  if (error) {
+    return compensationErrorPage(error);
+  }
+  if (!body.get('confirm')) {
+    const dues = await getMemberDues(session.customerId, env);
+    if (!dues) {
+      return compensationErrorPage("You don't have a subscription to update. Please contact the membership committee.");
+    }
+    return compensationConfirmationPage(dues, Number(totalComp), previewDues(dues, Number(totalComp)), session.csrfToken);
+  }
+  try {
+    await updateCompensation(session.customerId, Number(totalComp), env);
+  } catch (e) {
+    console.error(e);
+    return compensationErrorPage('Your dues could not be updated. Please try again later.');
+  }
+  return Response.redirect(homeUrl(url, 'compensation_updated'));
+}
+
+async function handleDuesPauseRequest({ url, env, body, session }: MemberFormContext): Promise<Response> {
+  const [reason, start, end] = ['pause_reason', 'pause_start', 'pause_end'].map((name) => String(body.get(name) ?? ''));
+  const error = validateDuesPause(reason, start, end);
+  if (error) {
+    return Response.redirect(homeUrl(url, 'pause_error', error));
+  }
+  let refusal: string | undefined;
+  try {
+    refusal = await requestDuesPause(session.customerId, reason, start, end, env);
+  } catch (e) {
+    console.error(e);
+    return Response.redirect(homeUrl(url, 'pause_error', 'Your request could not be sent. Please try again later.'));
+  }
+  return Response.redirect(refusal ? homeUrl(url, 'pause_error', refusal) : homeUrl(url, 'pause_requested'));
+}
+
+async function handleProfile({ url, env, session }: MemberContext): Promise<Response> {
+  const customer = await getCustomer(session.customerId, env);
+  return customer ? profilePage(customer, url.searchParams, session.csrfToken) : Response.redirect(homeUrl(url));
+}
+
+/**
+ * Invalid submissions are shown again with what's wrong, like the join form.
+ */
+async function handleProfileChange({ url, env, body, session }: MemberFormContext): Promise<Response> {
+  const errors = validateProfile(body);
+  if (Object.keys(errors).length) {
+    const customer = await getCustomer(session.customerId, env);
+    return customer ? profilePage(customer, new URLSearchParams(), session.csrfToken, body, errors) : Response.redirect(homeUrl(url));
+  }
+  let unconfirmed: ProfileChange | undefined;
+  try {
+    ({ unconfirmed } = await updateProfile(session.customerId, body, env));
+    if (unconfirmed) {
+      const { before, after } = unconfirmed;
+      const confirmationUrl = new URL(CONFIRM_EMAIL_PATH, url).toString();
+      const confirmationLink = await makeEmailConfirmationLink(confirmationUrl, session.customerId, before, after, env);
+      await sendEmailConfirmationEmail(after, confirmationLink, env);
+    }
+  } catch (e) {
+    console.error(e);
+    return errorPage(500, 'Something went wrong', 'Your profile could not be updated. Please try again later.', PROFILE_PATH);
+  }
+  return Response.redirect(urlWithParam(url.toString(), 'profile_updated', unconfirmed ? 'confirm_email' : ''));
+}
+
+/**
+ * Confirming a new email doesn't need a session, since the link may be opened
+ * anywhere the member reads that email.
+ */
+async function handleEmailConfirmation({ url, env, body }: FormContext): Promise<Response> {
+  const confirmToken = body.get('confirm_token');
+  const change = typeof confirmToken === 'string' ? await useEmailConfirmationToken(confirmToken, env) : undefined;
+  const confirmed = change && (await confirmEmailChange(change.customerId, change, env));
+  return Response.redirect(urlWithParam(url.toString(), confirmed ? 'email_confirmed' : 'link_invalid'));
+}
+
+async function handleResignationPage({ url, env, session }: MemberContext): Promise<Response> {
+  const dues = await getMemberDues(session.customerId, env);
+  return dues ? resignationPage(dues, url.searchParams, session.csrfToken) : Response.redirect(homeUrl(url));
+}
+
+async function handleResignation({ url, env, body, session }: MemberFormContext): Promise<Response> {
+  const [reason, feedback] = ['resignation_reason', 'resignation_feedback'].map((name) => String(body.get(name) ?? ''));
+  try {
+    await resignMembership(session.customerId, reason, feedback, env);
+  } catch (e) {
+    console.error(e);
+    return Response.redirect(
+      urlWithParam(url.toString(), 'resign_error', 'Your resignation could not be processed. Please try again later.'),
+    );
+  }
+  return Response.redirect(homeUrl(url, 'resigned'));
 }
 
-async function redirectWithSession(customerId: string, request: Request, env: Env): Promise<Response> {
-  const sessionToken = await makeSessionToken(customerId, env);
-  const url = new URL(request.url);
-  url.search = '';
-  const response = new Response('', { status: 302 });
-  response.headers.set('Set-Cookie', serialize('session_token', sessionToken, { secure: true, maxAge: 60 * 60 * 24 * 7 }));
-  response.headers.set('Location', url.toString());
-  return response;
+/**
+ * The member page, with a param for what just happened.
+ */
+function homeUrl(url: URL, param?: string, value?: string): string {
+  const home = new URL('/', url).toString();
+  return param ? urlWithParam(home, param, value) : home;
 }
 
-async function getCustomerIdByEmail(email: string, env: Env): Promise<string | undefined> {
+/**
+ * Members who signed up more than once have several customers with the same
+ * email, and choose which to log in as.
+ */
+async function getCustomerIdsByEmail(email: string, env: Env): Promise<string[]> {
   const stripe = new Stripe(env.STRIPE_API_KEY);
   const customers = await stripe.customers.search({
     query: `email:${JSON.stringify(email)}`,
-    limit: 1,
+    limit: 100,
   });
-  const customerId = customers.data[0]?.id;
-  return customerId;
-}
-
-function makeLoginToken(customerId: string, env: Env): Promise<string> {
-  const secret = env.LOGIN_LINK_SECRET;
-  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
-  return sign(
-    {
-      sub: customerId,
-      exp: Math.floor(Date.now() / 1000) + 60 * 30, // Expires in 30 min.
-    },
-    secret,
-  );
-}
-
-function makeSessionToken(customerId: string, env: Env): Promise<string> {
-  const secret = env.LOGIN_LINK_SECRET;
-  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
-  return sign(
-    {
-      sub: customerId,
-      exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 7,
-    },
-    secret,
-  );
-}
-
-function urlWithParam(url: string, param: string, value: string = ''): string {
-  const newUrl = new URL(url);
-  newUrl.search = '';
-  newUrl.searchParams.set(param, value);
-  return newUrl.toString();
-}
-
-async function makeLoginLink(incomingUrl: string, customerId: string, env: Env): Promise<string> {
-  return urlWithParam(incomingUrl, 'login_token', await makeLoginToken(customerId, env));
+  return customers.data.map(({ id }) => id);
 }
 
 async function redirectToStripePortal(customer: string, env: Env): Promise<Response> {
@@ -0,0 +1,166 @@
+import { decode, sign, verify } from '@tsndr/cloudflare-worker-jwt';
+
+import { getTokenStore } from './token-store';
+
+// The `aud` of login tokens, so that they can't be used as session tokens, which
+// are signed with the same secret.
+export const LOGIN_AUDIENCE = 'login';
+
+// The `aud` of tokens for choosing between the memberships a login link was
+// for.
+const CHOICE_AUDIENCE = 'choose-membership';
+
+// Members with several memberships have this long to choose one.
+const CHOICE_DURATION = 60 * 15;
+
+// The `aud` of tokens for confirming a change to a member's email.
+const EMAIL_CONFIRMATION_AUDIENCE = 'confirm-email';
+
+const EMAIL_CONFIRMATION_DURATION = 60 * 60 * 24; // 1 day.
+
+export function urlWithParam(url: string, param: string, value: string = ''): string {
+  const newUrl = new URL(url);
+  newUrl.search = '';
+  newUrl.searchParams.set(param, value);
+  return newUrl.toString();
+}
+
+/**
+ * @param customerIds The customers the link can log in as.  Members who signed
+ *     up more than once with the same email choose one after clicking it
+ * @param expiresIn Seconds until the link expires, by default 30 min for links
+ *     the member has just asked for
+ */
+export async function makeLoginLink(incomingUrl: string, customerIds: string[], env: Env, expiresIn = 60 * 30): Promise<string> {
+  return urlWithParam(incomingUrl, 'login_token', await makeLoginToken(customerIds, expiresIn, env));
+}
+
+/**
+ * Log in with a token from a login link.  Each token can only be used once, so
+ * a link that's leaked after it's been used, say from browser history, is no
+ * use to anyone else.
+ *
+ * KV doesn't offer compare-and-set, so two uses within moments of each other,
+ * before the first is seen everywhere, may both succeed.
+ *
+ * @returns The IDs of the customers the member can log in as, or undefined if
+ *     the token isn't valid or has been used
+ */
+export async function useLoginToken(token: string, env: Env): Promise<string[] | undefined> {
+  if (!(await verify(token, env.LOGIN_LINK_SECRET))) {
+    return undefined;
+  }
+  const { sub, aud, jti, exp, customers, role } = decode<{ customers?: unknown; role?: unknown }>(token).payload ?? {};
+  // Links sent before they could be for several customers have only `sub`.
+  // Committee members' links have a `role`, and log in to their own area.
+  const customerIds = isStringArray(customers) ? customers : sub ? [sub] : [];
+  if (!customerIds.length || aud !== LOGIN_AUDIENCE || role !== undefined || !jti || !exp) {
+    return undefined;
+  }
+  return (await claimLoginToken(jti, exp, env)) ? customerIds : undefined;
+}
+
+/**
+ * Record that a login token has been used.
+ *
+ * @returns False if it already had been
+ */
+export async function claimLoginToken(jti: string, exp: number, env: Env): Promise<boolean> {
+  const store = getTokenStore(env);
+  const key = `login/${jti}`;
+  if (await store.get(key)) {
+    return false;
+  }
+  // Kept until the token would have expired anyway, or for the minute KV needs
+  // at least.
+  await store.put(key, new Date().toISOString(), { expiration: Math.max(exp, Math.floor(Date.now() / 1000) + 60) });
+  return true;
+}
+
+/**
+ * A token for the membership choice page, which lets the member log in as any
+ * of the customers a used login token was for.
+ */
+export function makeChoiceToken(customerIds: string[], env: Env): Promise<string> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  return sign({ customers: customerIds, aud: CHOICE_AUDIENCE, exp: Math.floor(Date.now() / 1000) + CHOICE_DURATION }, secret);
+}
+
+/**
+ * Whether the member chose one of the customers their choice token is for.
+ */
+export async function isValidChoice(choiceToken: string, customerId: string, env: Env): Promise<boolean> {
+  if (!(await verify(choiceToken, env.LOGIN_LINK_SECRET))) {
+    return false;
+  }
+  const { aud, customers } = decode<{ customers?: unknown }>(choiceToken).payload ?? {};
+  return aud === CHOICE_AUDIENCE && isStringArray(customers) && customers.includes(customerId);
+}
+
+/**
+ * A link for the member to confirm that a new email is theirs, sent to it.
+ * Like login links, it can only be used once.
+ *
+ * @param confirmationUrl Where the link leads
+ * @param before The member's email when they changed it, so that the link is
+ *     no use once they've changed it again
+ */
+export async function makeEmailConfirmationLink(
+  confirmationUrl: string,
+  customerId: string,
+  before: string,
+  after: string,
+  env: Env,
+): Promise<string> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  const token = await sign(
+    {
+      sub: customerId,
+      before,
+      after,
+      aud: EMAIL_CONFIRMATION_AUDIENCE,
+      jti: crypto.randomUUID(),
+      exp: Math.floor(Date.now() / 1000) + EMAIL_CONFIRMATION_DURATION,
+    },
+    secret,
+  );
+  return urlWithParam(confirmationUrl, 'confirm_token', token);
+}
+
+/**
+ * @returns The change the member confirmed, or undefined if the token isn't
+ *     valid or has been used
+ */
+export async function useEmailConfirmationToken(
+  token: string,
+  env: Env,
+): Promise<{ customerId: string; before: string; after: string } | undefined> {
+  if (!(await verify(token, env.LOGIN_LINK_SECRET))) {
+    return undefined;
+  }
+  const { sub, aud, jti, exp, before, after } = decode<{ before?: unknown; after?: unknown }>(token).payload ?? {};
+  if (!sub || aud !== EMAIL_CONFIRMATION_AUDIENCE || !jti || !exp || typeof before !== 'string' || typeof after !== 'string') {
+    return undefined;
+  }
+  return (await claimLoginToken(jti, exp, env)) ? { customerId: sub, before, after } : undefined;
+}
+
+function makeLoginToken(customerIds: string[], expiresIn: number, env: Env): Promise<string> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  return sign(
+    {
+      customers: customerIds,
+      aud: LOGIN_AUDIENCE,
+      jti: crypto.randomUUID(),
+      exp: Math.floor(Date.now() / 1000) + expiresIn,
+    },
+    secret,
+  );
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
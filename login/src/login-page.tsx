@@ -1,5 +1,15 @@
+import type Stripe from 'stripe';
+
+import { DASHBOARD_STATUS_LABELS } from './dashboard';
 import { makeHtmlResponse, renderDocument } from './html';
-export function loginPage(params: URLSearchParams): Response {
+import { getMembershipStatus } from './memberships';
+
+/**
+ * @param challengeSiteKey Turnstile's site key, if a challenge must be solved to
+ *     get a login link
+ * @param status 429 when shown to say too many links have been requested
+ */
+export function loginPage(params: URLSearchParams, challengeSiteKey?: string, status = 200): Response {
   const linkSent = params.has('link_sent');
   return makeHtmlResponse(
     renderDocument(
@@ -58,6 +68,19 @@ export function loginPage(params: URLSearchParams): Response {
           >
             Enter the <em>personal</em> email associated with your account. We'll send you a link to log in.
           </p>
+          {params.has('rate_limited') && (
+            <p style={{ padding: '0 var(--text-padding)', margin: 0 }}>
+              Too many login links have been requested. Please wait an hour and try again.
+            </p>
+          )}
+          {params.has('challenge_failed') && (
+            <p style={{ padding: '0 var(--text-padding)', margin: 0 }}>We couldn't verify that you're not a bot. Please try again.</p>
+          )}
+          {params.has('link_invalid') && (
+            <p style={{ padding: '0 var(--text-padding)', margin: 0 }}>
+              That login link has expired or has already been used. Login links only work once, so please ask for a new one.
+            </p>
+          )}
           <input
             type="email"
             name="email"
@@ -68,6 +91,12 @@ export function loginPage(params: URLSearchParams): Response {
               border: 'solid 2px var(--gray-1)',
             }}
           />
+          {challengeSiteKey && (
+            <>
+              <script src="https://challenges.cloudflare.com/turnstile/v0/api.js" async defer></script>
+              <div class="cf-turnstile" data-sitekey={challengeSiteKey}></div>
+            </>
+          )}
           <button
             type="submit"
             style={{
@@ -95,5 +124,107 @@ export function loginPage(params: URLSearchParams): Response {
         </form>
       ),
     ),
+    status,
+  );
+}
+
+/**
+ * Where login links lead.  The token is only used when the member clicks
+ * through, since it can only be used once.
+ *
+ * @param action Where the token is posted to, which is elsewhere for the
+ *     Membership Committee's links
+ */
+export function continueLoginPage(loginToken: string, action = '/', title = 'Log in to your dues profile'): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <form
+        action={action}
+        method="post"
+        style={{
+          background: 'var(--white)',
+          borderRadius: 'var(--border-radius)',
+          padding: 'var(--container-padding)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--container-padding)',
+          alignItems: 'stretch',
+          maxWidth: 'min(400px, 90vw)',
+          margin: '0 auto',
+        }}
+      >
+        <h1 style={{ textAlign: 'center', margin: 0 }}>{title}</h1>
+        <input type="hidden" name="login_token" value={loginToken} />
+        <button
+          type="submit"
+          style={{
+            fontSize: '1.1em',
+            background: 'var(--primary)',
+            padding: '20px 30px',
+            border: 0,
+            borderRadius: 50,
+            color: 'var(--white)',
+          }}
+        >
+          Log in
+        </button>
+      </form>,
+    ),
+  );
+}
+
+/**
+ * For members with more than one membership under their email, to choose which
+ * one to log in to.
+ *
+ * @param customers The member's customers, with their subscriptions expanded
+ * @param choiceToken See `makeChoiceToken`
+ */
+export function chooseMembershipPage(customers: Stripe.Customer[], choiceToken: string): Response {
+  return makeHtmlResponse(
+    renderDocument(
+      <form
+        action="/"
+        method="post"
+        style={{
+          background: 'var(--white)',
+          borderRadius: 'var(--border-radius)',
+          padding: 'var(--container-padding)',
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 'var(--container-padding)',
+          alignItems: 'stretch',
+          maxWidth: 'min(400px, 90vw)',
+          margin: '0 auto',
+        }}
+      >
+        <h1 style={{ textAlign: 'center', margin: 0 }}>Choose a membership</h1>
+        <p style={{ padding: '0 var(--text-padding)', margin: 0 }}>
+          More than one membership uses your email. Choose the one to manage. To manage another, log out and use a new login link.
+        </p>
+        <input type="hidden" name="choice_token" value={choiceToken} />
+        {customers.map((customer) => (
+          <button
+            type="submit"
+            name="customer"
+            value={customer.id}
+            style={{
+              fontSize: '1.1em',
+              background: 'var(--white)',
+              padding: 'var(--text-padding)',
+              border: 'solid 2px var(--primary)',
+              borderRadius: 'var(--border-radius)',
+              textAlign: 'left',
+            }}
+          >
+            <strong>{customer.name ?? customer.email}</strong>
+            <br />
+            Signed up {new Date(customer.created * 1000).toDateString()}
+            <br />
+            {DASHBOARD_STATUS_LABELS[getMembershipStatus(customer)]}
+          </button>
+        ))}
+      </form>,
+    ),
   );
 }
@@ -1,116 +1,126 @@
 import Stripe from 'stripe';
+import { getCompensationHistory, getMemberDues } from './compensation';
+import { CompensationSection } from './compensation-page';
+import { getRecentInvoices } from './dashboard';
+import { CsrfField } from './csrf';
+import { DashboardSection } from './dashboard-page';
+import { getDuesPause } from './dues-pause';
+import { DuesPauseSection } from './dues-pause-page';
 import { makeHtmlResponse, renderDocument } from './html';
+import { ProfileSection } from './profile-page';
+import { ResignationSection } from './resignation-page';
+import { LOGOUT_PATH, MemberSession } from './session';
 
-export async function memberPage(customerId: string, env: Env): Promise<Response> {
-  const sourceIds = await getSourceIds(customerId, env);
+// Where members with legacy ACH sources remove them.
+export const DELETE_SOURCE_PATH = '/delete-source';
+
+export async function memberPage({ customerId, csrfToken }: MemberSession, env: Env, params: URLSearchParams): Promise<Response> {
+  const [sourceIds, customer, dues, history, invoices] = await Promise.all([
+    getSourceIds(customerId, env),
+    getCustomer(customerId, env),
+    getMemberDues(customerId, env),
+    getCompensationHistory(customerId, env),
+    getRecentInvoices(customerId, env),
+  ]);
   return makeHtmlResponse(
     renderDocument(
-      sourceIds.length ? (
-        <form
-          method="post"
-          action=""
-          style={{
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            margin: '0 auto',
-            gap: 'var(--container-padding)',
-            padding: 'var(--container-padding)',
-            maxWidth: 'min(400px, 90vw)',
-            background: 'var(--white)',
-            borderRadius: 'var(--border-radius)',
-          }}
-        >
-          <p
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 'var(--container-padding)' }}>
+        {sourceIds.length ? (
+          <form
+            method="post"
+            action={DELETE_SOURCE_PATH}
             style={{
-              background: 'var(--yellow-faded)',
-              border: 'solid 2px var(--yellow)',
-              margin: 0,
-              padding: 'var(--text-padding)',
+              display: 'flex',
+              flexDirection: 'column',
+              alignItems: 'center',
+              margin: '0 auto',
+              gap: 'var(--container-padding)',
+              padding: 'var(--container-padding)',
+              maxWidth: 'min(400px, 90vw)',
+              background: 'var(--white)',
               borderRadius: 'var(--border-radius)',
-              maxWidth: 'min(700px, 90vw)',
-            }}
-          >
-            ℹ️
-            <strong>Legacy billing must be removed.</strong>
-            <br />
-            <br />
-            Your bank details are linked via a method that Stripe has deprecated.
-            <br />
-            <br />
-            Before you can manage your billing details, the current payment source must be removed. Please be sure to add a new billing
-            method shortly after.
-          </p>
-          <button
-            type="submit"
-            name="delete_source"
-            value="1"
-            style={{
-              fontSize: '1.1em',
-              background: 'var(--primary)',
-              padding: '20px 30px',
-              border: 0,
-              borderRadius: 50,
-              color: 'var(--white)',
             }}
           >
-            Delete payment source
+            <CsrfField token={csrfToken} />
+            <p
+              style={{
+                background: 'var(--yellow-faded)',
+                border: 'solid 2px var(--yellow)',
+                margin: 0,
+                padding: 'var(--text-padding)',
+                borderRadius: 'var(--border-radius)',
+                maxWidth: 'min(700px, 90vw)',
+              }}
+            >
+              ℹ️
+              <strong>Legacy billing must be removed.</strong>
+              <br />
+              <br />
+              Your bank details are linked via a method that Stripe has deprecated.
+              <br />
+              <br />
+              Before you can manage your billing details, the current payment source must be removed. Please be sure to add a new billing
+              method shortly after.
+            </p>
+            <button
+              type="submit"
+              name="delete_source"
+              value="1"
+              style={{
+                fontSize: '1.1em',
+                background: 'var(--primary)',
+                padding: '20px 30px',
+                border: 0,
+                borderRadius: 50,
+                color: 'var(--white)',
+              }}
+            >
+              Delete payment source
+            </button>
+            <p
+              style={{
+                margin: 0,
+                padding: '0 var(--text-padding)',
+              }}
+            >
+              You'll be taken straight to the billing portal.
+            </p>
+            <p
+              style={{
+                fontSize: '0.6em',
+                opacity: 0.7,
+                padding: '0 var(--text-padding)',
+              }}
+            >
+              For questions, contact the membership committee at
+              <br />
+              <a href="mailto:committee-membership@union.groups.io">committee-membership@union.groups.io</a>.
+            </p>
+          </form>
+        ) : null}
+        {customer && <DashboardSection customer={customer} dues={dues} invoices={invoices} manageBilling={!sourceIds.length} />}
+        {customer && <ProfileSection />}
+        {dues && <CompensationSection dues={dues} history={history} params={params} csrfToken={csrfToken} />}
+        {dues && <DuesPauseSection pause={customer && getDuesPause(customer)} params={params} csrfToken={csrfToken} />}
+        {dues && <ResignationSection dues={dues} params={params} />}
+        <form method="post" action={LOGOUT_PATH} style={{ display: 'flex', justifyContent: 'center', gap: 'var(--container-padding)' }}>
+          <CsrfField token={csrfToken} />
+          <button type="submit">Log out</button>
+          <button type="submit" name="everywhere" value="1">
+            Log out on all devices
           </button>
-          <p
-            style={{
-              margin: 0,
-              padding: '0 var(--text-padding)',
-            }}
-          >
-            You'll be taken straight to the billing portal.
-          </p>
-          <p
-            style={{
-              fontSize: '0.6em',
-              opacity: 0.7,
-              padding: '0 var(--text-padding)',
-            }}
-          >
-            For questions, contact the membership committee at
-            <br />
-            <a href="mailto:committee-membership@union.groups.io">committee-membership@union.groups.io</a>.
-          </p>
         </form>
-      ) : (
-        <div
-          style={{
-            display: 'flex',
-            flexDirection: 'column',
-            alignItems: 'center',
-            margin: '0 auto',
-            gap: 'var(--container-padding)',
-            padding: 'var(--container-padding)',
-            maxWidth: 'min(400px, 90vw)',
-            background: 'var(--white)',
-            borderRadius: 'var(--border-radius)',
-          }}
-        >
-          <p style={{ margin: 0 }}>Your billing details can be managed in the Stripe billing portal.</p>
-          <a
-            href="/stripe-portal"
-            style={{
-              fontSize: '1.1em',
-              background: 'var(--primary)',
-              padding: '20px 30px',
-              border: 0,
-              borderRadius: 50,
-              color: 'var(--white)',
-              textDecoration: 'none',
-            }}
-          >
-            Open Stripe billing portal
-          </a>
-        </div>
-      ),
+      </div>,
     ),
   );
 }
 
+export async function getCustomer(customerId: string, env: Env): Promise<Stripe.Customer | undefined> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  return customer.deleted ? undefined : customer;
+}
+
 /**
  * Get all source IDs for legacy ACH integrations.
  */
@@ -0,0 +1,54 @@
+import Stripe from 'stripe';
+
+import { DashboardStatus, getDashboardStatus } from './dashboard';
+
+/**
+ * Customers who share an email, because the member signed up more than once,
+ * or has both a legacy ACH customer and a newer one.
+ */
+export interface DuplicateCluster {
+  email: string;
+  // Oldest first, with their subscriptions expanded.
+  customers: Stripe.Customer[];
+}
+
+/**
+ * The customers a login link was for, oldest first, with their subscriptions
+ * expanded.
+ */
+export async function getCustomers(customerIds: string[], env: Env): Promise<Stripe.Customer[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customers = await Promise.all(
+    customerIds.map((customerId) => stripe.customers.retrieve(customerId, { expand: ['subscriptions'] })),
+  );
+  return customers.flatMap((customer) => (customer.deleted ? [] : [customer])).sort((a, b) => a.created - b.created);
+}
+
+/**
+ * The status of a customer with expanded subscriptions, for telling apart the
+ * memberships of one email.
+ */
+export function getMembershipStatus(customer: Stripe.Customer): DashboardStatus {
+  return getDashboardStatus(customer, customer.subscriptions?.data[0]);
+}
+
+/**
+ * Every email that more than one customer has, for the committee to merge or
+ * clean up.  This reads all customers, so it's only run when asked for.
+ */
+export async function listDuplicateCustomers(env: Env): Promise<DuplicateCluster[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const clusters = new Map<string, Stripe.Customer[]>();
+  await stripe.customers.list({ limit: 100, expand: ['data.subscriptions'] }).autoPagingEach((customer) => {
+    // Emails are compared case-insensitively, as people don't type them
+    // consistently.
+    const email = customer.email?.trim().toLowerCase();
+    if (email) {
+      clusters.set(email, [...(clusters.get(email) ?? []), customer]);
+    }
+  });
+  return [...clusters]
+    .filter(([, customers]) => customers.length > 1)
+    .map(([email, customers]) => ({ email, customers: customers.sort((a, b) => a.created - b.created) }))
+    .sort((a, b) => a.email.localeCompare(b.email));
+}
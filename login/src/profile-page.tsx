@@ -0,0 +1,213 @@
+import type Stripe from 'stripe';
+
+import { FIELDS } from '../../signup-worker/src/fields';
+import { CsrfField } from './csrf';
+import { makeHtmlResponse, renderDocument } from './html';
+import { getProfileReview, PROFILE_FIELDS, REVIEWED_FIELDS } from './profile';
+
+export const PROFILE_PATH = '/profile';
+
+// Where links to confirm a new email lead.
+export const CONFIRM_EMAIL_PATH = '/confirm-email';
+
+const containerStyle = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'stretch',
+  margin: '0 auto',
+  gap: 'var(--container-padding)',
+  padding: 'var(--container-padding)',
+  maxWidth: 'min(400px, 90vw)',
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+} as const;
+
+const inputStyle = {
+  fontSize: '1em',
+  padding: 'var(--text-padding)',
+  borderRadius: 'var(--border-radius)',
+  border: 'solid 2px var(--gray-1)',
+} as const;
+
+const labelStyle = { display: 'flex', flexDirection: 'column', gap: 'var(--text-padding)' } as const;
+
+const errorStyle = { margin: 0, fontSize: '0.8em', color: 'var(--primary)' } as const;
+
+// As the join form shows them.
+const OPTION_LABELS: Record<string, Record<string, string> | undefined> = {
+  'employment-type': {
+    fte: 'Full-time employee (FTE)',
+    t: 'Temporary worker (T)',
+    v: 'Vendor employee (V)',
+    c: 'Contractor (C)',
+  },
+  'have-reports': { n: 'No', y: 'Yes' },
+  'sms-consent': { n: 'No', y: 'Yes' },
+  'tshirt-size': {
+    xs: 'XS',
+    s: 'Small',
+    m: 'Medium',
+    l: 'Large',
+    xl: 'XL',
+    '2xl': '2XL',
+    '3xl': '3XL',
+    '4xl': '4XL',
+    other: 'Other (none of the above)',
+  },
+};
+
+/**
+ * The member's details as given on the join form, for them to correct.
+ *
+ * @param submitted The values of a submission with errors, to show again
+ *     instead of the member's current details
+ * @param errors What's wrong with each submitted field, by name
+ */
+export function profilePage(
+  customer: Stripe.Customer,
+  params: URLSearchParams,
+  csrfToken: string,
+  submitted?: FormData,
+  errors: Record<string, string> = {},
+): Response {
+  const review = getProfileReview(customer);
+  const pending = review?.status === 'requested' ? review.changes : [];
+  const pendingLabels = pending.map(({ field }) => FIELDS[field].label.toLowerCase()).join(', ');
+  const valueOf = (field: string) => {
+    if (submitted) {
+      const value = submitted.get(field);
+      return typeof value === 'string' ? value : '';
+    }
+    // Changes waiting for review are shown, so that saving again keeps them.
+    return pending.find((change) => change.field === field)?.after ?? (customer.metadata[field] as string | undefined) ?? '';
+  };
+  return makeHtmlResponse(
+    renderDocument(
+      <form method="post" action="" style={containerStyle}>
+        <CsrfField token={csrfToken} />
+        <h1 style={{ margin: 0 }}>Your profile</h1>
+        {params.has('profile_updated') && <p style={{ margin: 0 }}>Your profile has been updated.</p>}
+        {params.get('profile_updated') === 'confirm_email' && (
+          <p style={{ margin: 0 }}>
+            We've emailed a link to your new email. Your email will only change once you click it, so check that inbox.
+          </p>
+        )}
+        {Object.keys(errors).length > 0 && <p style={{ margin: 0 }}>Please correct the fields below.</p>}
+        {pending.length > 0 && (
+          <p style={{ margin: 0 }}>
+            The Membership Committee is reviewing your changes to {pendingLabels}. Until then, your previous details are kept.
+          </p>
+        )}
+        {review?.status === 'rejected' && (
+          <p style={{ margin: 0 }}>The Membership Committee didn't approve your last changes to your employment details.</p>
+        )}
+        <p style={{ margin: 0 }}>Changes to your employment details are reviewed by the Membership Committee before they take effect.</p>
+        {PROFILE_FIELDS.map((field) => (
+          <ProfileField field={field} value={valueOf(field)} error={errors[field]} />
+        ))}
+        <button
+          type="submit"
+          name="profile"
+          value="1"
+          style={{
+            fontSize: '1.1em',
+            background: 'var(--primary)',
+            padding: '20px 30px',
+            border: 0,
+            borderRadius: 50,
+            color: 'var(--white)',
+          }}
+        >
+          Save changes
+        </button>
+        <a href="/" style={{ textAlign: 'center' }}>
+          Cancel
+        </a>
+      </form>,
+    ),
+  );
+}
+
+/**
+ * Where links to confirm a new email lead.  Like login links, the token is only
+ * used when the member clicks through, and the page then says how it went.
+ */
+export function confirmEmailPage(params: URLSearchParams): Response {
+  const confirmToken = params.get('confirm_token');
+  return makeHtmlResponse(
+    renderDocument(
+      <form method="post" action={CONFIRM_EMAIL_PATH} style={containerStyle}>
+        <h1 style={{ margin: 0 }}>Confirm your new email</h1>
+        {params.has('email_confirmed') ? (
+          <p style={{ margin: 0 }}>Your email has been changed. Use it from now on to log in.</p>
+        ) : params.has('link_invalid') || !confirmToken ? (
+          <p style={{ margin: 0 }}>
+            That link has expired, has already been used, or is for an email you've since changed again. Please change your email again from
+            your profile.
+          </p>
+        ) : (
+          <>
+            <input type="hidden" name="confirm_token" value={confirmToken} />
+            <button
+              type="submit"
+              style={{
+                fontSize: '1.1em',
+                background: 'var(--primary)',
+                padding: '20px 30px',
+                border: 0,
+                borderRadius: 50,
+                color: 'var(--white)',
+              }}
+            >
+              Confirm
+            </button>
+          </>
+        )}
+        <a href="/" style={{ textAlign: 'center' }}>
+          Go to your dues profile
+        </a>
+      </form>,
+    ),
+  );
+}
+
+function ProfileField({ field, value, error }: { field: string; value: string; error?: string }) {
+  const schema = FIELDS[field];
+  const required = schema.required === true;
+  const labels = OPTION_LABELS[field];
+  return (
+    <label style={labelStyle}>
+      <span>
+        {schema.label}
+        {!required && ' (optional)'}
+        {REVIEWED_FIELDS.includes(field) && ' (reviewed)'}
+      </span>
+      {schema.type === 'select' ? (
+        <select name={field} required={required} style={inputStyle}>
+          {!required && <option value=""></option>}
+          {schema.options?.map((option) => (
+            <option value={option} selected={option === value}>
+              {labels?.[option] ?? option}
+            </option>
+          ))}
+        </select>
+      ) : (
+        <input type={schema.type} name={field} value={value} maxLength={schema.maxLength} required={required} style={inputStyle} />
+      )}
+      {error && <p style={errorStyle}>{error}</p>}
+    </label>
+  );
+}
+
+/**
+ * On the member page: the way to their profile.
+ */
+export function ProfileSection() {
+  return (
+    <div style={containerStyle}>
+      <h2 style={{ margin: 0 }}>Profile</h2>
+      <p style={{ margin: 0 }}>Moved, changed teams or go by a different name? Keep your details up to date.</p>
+      <a href={PROFILE_PATH}>Edit your profile</a>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import Stripe from 'stripe';
+
+import {
+  PROFILE_REVIEW_CHANGES,
+  PROFILE_REVIEW_DECISION_AT,
+  PROFILE_REVIEW_DECISION_BY,
+  PROFILE_REVIEW_STATUS,
+  ProfileReviewStatus,
+} from '../../common/membership';
+import { METADATA, validateField } from '../../signup-worker/src/fields';
+import type { Decision } from './admin';
+import { recordHistory } from './history';
+
+/**
+ * The join form's fields which members can change themselves.  The rest are
+ * either a record of signing up, or changed through their own flows, like
+ * total compensation.
+ */
+export const PROFILE_FIELDS = METADATA.filter((name) => !['signature', 'total-compensation', 'pad-agreement'].includes(name));
+
+/**
+ * Fields which decide whether someone can be a member, so changes to them
+ * only take effect once the Membership Committee has reviewed them.
+ */
+export const REVIEWED_FIELDS = ['employment-type', 'employer', 'site-code', 'have-reports'];
+
+/**
+ * The member's email, which they log in and are billed with.  Changes to it
+ * only take effect once confirmed from the new address, see
+ * `confirmEmailChange`.
+ */
+export const EMAIL_FIELD = 'personal-email';
+
+// Fields which are also kept on the customer itself, by the customer param.
+const CUSTOMER_PARAMS: Record<string, 'name' | 'email' | undefined> = {
+  'preferred-name': 'name',
+  [EMAIL_FIELD]: 'email',
+};
+
+export interface ProfileChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * A member's changes to their employment details, with the latest review of
+ * them.
+ */
+export interface ProfileReview {
+  status: ProfileReviewStatus;
+  changes: ProfileChange[];
+}
+
+export interface ProfileReviewRequest {
+  customer: Stripe.Customer;
+  review: ProfileReview;
+}
+
+/**
+ * @returns What's wrong with each submitted field, by name.  Empty if nothing
+ */
+export function validateProfile(body: FormData): Record<string, string> {
+  const values = (name: string) => {
+    const value = body.get(name);
+    return typeof value === 'string' ? value.trim() : undefined;
+  };
+  const errors: Record<string, string> = {};
+  for (const name of PROFILE_FIELDS) {
+    const error = validateField(name, values);
+    if (error) {
+      errors[name] = error;
+    }
+  }
+  return errors;
+}
+
+/**
+ * @returns Undefined if the member has never changed their employment details
+ */
+export function getProfileReview(customer: Stripe.Customer): ProfileReview | undefined {
+  const status = customer.metadata[PROFILE_REVIEW_STATUS] as ProfileReviewStatus | undefined;
+  return (
+    status && {
+      status,
+      changes: Object.entries(JSON.parse(customer.metadata[PROFILE_REVIEW_CHANGES] || '{}') as Record<string, string>).map(
+        ([field, after]) => ({ field, before: customer.metadata[field] ?? '', after }),
+      ),
+    }
+  );
+}
+
+/**
+ * Save the member's changes to their profile.  Changes to `REVIEWED_FIELDS`
+ * are held for the Membership Committee's review, replacing any still waiting,
+ * a change to their email waits for them to confirm it, and the rest are
+ * applied straight away.
+ *
+ * @param body A valid submission of the profile form
+ * @returns The changes applied, those held for review, and the change to the
+ *     member's email, if any, to be confirmed
+ */
+export async function updateProfile(
+  customerId: string,
+  body: FormData,
+  env: Env,
+): Promise<{ applied: ProfileChange[]; held: ProfileChange[]; unconfirmed?: ProfileChange }> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted) {
+    throw new Error(`${customerId} has been deleted.`);
+  }
+  const changes = PROFILE_FIELDS.flatMap((field) => {
+    const before = customer.metadata[field] ?? '';
+    const value = body.get(field);
+    const after = typeof value === 'string' ? value.trim() : '';
+    return before === after ? [] : [{ field, before, after }];
+  });
+  const applied = changes.filter(({ field }) => !REVIEWED_FIELDS.includes(field) && field !== EMAIL_FIELD);
+  const held = changes.filter(({ field }) => REVIEWED_FIELDS.includes(field));
+  const unconfirmed = changes.find(({ field }) => field === EMAIL_FIELD);
+  if (!applied.length && !held.length) {
+    return { applied, held, unconfirmed };
+  }
+
+  const params: Stripe.CustomerUpdateParams = {};
+  const metadata: Stripe.MetadataParam = {};
+  for (const { field, after } of applied) {
+    metadata[field] = after;
+    const param = CUSTOMER_PARAMS[field];
+    if (param) {
+      params[param] = after;
+    }
+  }
+  if (held.length) {
+    metadata[PROFILE_REVIEW_CHANGES] = JSON.stringify(Object.fromEntries(held.map(({ field, after }) => [field, after])));
+    metadata[PROFILE_REVIEW_STATUS] = 'requested' satisfies ProfileReviewStatus;
+    metadata[PROFILE_REVIEW_DECISION_BY] = '';
+    metadata[PROFILE_REVIEW_DECISION_AT] = '';
+  }
+  await stripe.customers.update(customerId, { ...params, metadata });
+  await recordChanges(customerId, applied, env);
+  return { applied, held, unconfirmed };
+}
+
+/**
+ * Change the member's email, once they've confirmed the new one is theirs.
+ *
+ * @returns False if their email has changed since they asked
+ */
+export async function confirmEmailChange(customerId: string, { before, after }: Omit<ProfileChange, 'field'>, env: Env): Promise<boolean> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  if (customer.deleted || (customer.metadata[EMAIL_FIELD] ?? '') !== before) {
+    return false;
+  }
+  await stripe.customers.update(customerId, { email: after, metadata: { [EMAIL_FIELD]: after } });
+  await recordChanges(customerId, [{ field: EMAIL_FIELD, before, after }], env);
+  return true;
+}
+
+/**
+ * Changes waiting for the committee's review, oldest first.
+ */
+export async function listProfileReviews(env: Env): Promise<ProfileReviewRequest[]> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customers = await stripe.customers.search({
+    query: `metadata['${PROFILE_REVIEW_STATUS}']:'requested'`,
+    limit: 100,
+  });
+  return customers.data
+    .flatMap((customer) => {
+      const review = getProfileReview(customer);
+      return review ? [{ customer, review }] : [];
+    })
+    .sort((a, b) => a.customer.created - b.customer.created);
+}
+
+/**
+ * Apply the member's changes, or reject them and keep their details as they
+ * were.  Either way, the changes are no longer waiting.
+ */
+export async function decideProfileReview(customerId: string, decision: Decision, committeeMember: string, env: Env): Promise<void> {
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const customer = await stripe.customers.retrieve(customerId);
+  const review = customer.deleted ? undefined : getProfileReview(customer);
+  if (customer.deleted || review?.status !== 'requested') {
+    throw new Error(`${customerId} does not have profile changes waiting for review.`);
+  }
+  const metadata: Stripe.MetadataParam = {
+    [PROFILE_REVIEW_STATUS]: (decision === 'approve' ? 'approved' : 'rejected') satisfies ProfileReviewStatus,
+    [PROFILE_REVIEW_CHANGES]: '',
+    [PROFILE_REVIEW_DECISION_BY]: committeeMember,
+    [PROFILE_REVIEW_DECISION_AT]: new Date().toISOString(),
+  };
+  if (decision === 'approve') {
+    for (const { field, after } of review.changes) {
+      metadata[field] = after;
+    }
+  }
+  await stripe.customers.update(customerId, { metadata });
+  if (decision === 'approve') {
+    await recordChanges(customerId, review.changes, env, committeeMember);
+  }
+}
+
+/**
+ * @param approvedBy The committee member who approved changes held for review
+ */
+async function recordChanges(customerId: string, changes: ProfileChange[], env: Env, approvedBy?: string): Promise<void> {
+  const at = new Date().toISOString();
+  await Promise.all(
+    changes.map(({ field, before, after }) =>
+      recordHistory(customerId, { at, change: field, before, after, details: approvedBy ? { approvedBy } : undefined }, env),
+    ),
+  );
+}
@@ -0,0 +1,103 @@
+import type { MemberDues } from './compensation';
+import { CsrfField } from './csrf';
+import { makeHtmlResponse, renderDocument } from './html';
+import { getResignation, RESIGNATION_REASONS } from './resignation';
+
+export const RESIGNATION_PATH = '/resign';
+
+const containerStyle = {
+  display: 'flex',
+  flexDirection: 'column',
+  alignItems: 'stretch',
+  margin: '0 auto',
+  gap: 'var(--container-padding)',
+  padding: 'var(--container-padding)',
+  maxWidth: 'min(400px, 90vw)',
+  background: 'var(--white)',
+  borderRadius: 'var(--border-radius)',
+} as const;
+
+const inputStyle = {
+  fontSize: '1em',
+  padding: 'var(--text-padding)',
+  borderRadius: 'var(--border-radius)',
+  border: 'solid 2px var(--gray-1)',
+} as const;
+
+const labelStyle = { display: 'flex', flexDirection: 'column', gap: 'var(--text-padding)' } as const;
+
+/**
+ * On the member page: when their membership ends, if they've resigned, and
+ * otherwise the way to resign.
+ */
+export function ResignationSection({ dues, params }: { dues: MemberDues; params: URLSearchParams }) {
+  const resignation = getResignation(dues.subscription);
+  return (
+    <div style={containerStyle}>
+      <h2 style={{ margin: 0 }}>Resign membership</h2>
+      {resignation ? (
+        <p style={{ margin: 0 }}>
+          {params.has('resigned') && <>You've resigned, and we've emailed you a confirmation. </>}
+          Your membership ends on {resignation.endsAt.toDateString()}. You're welcome to rejoin at any time.
+        </p>
+      ) : (
+        <a href={RESIGNATION_PATH}>Resign your membership</a>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Explains what resigning means, and asks why before the member confirms.
+ */
+export function resignationPage(dues: MemberDues, params: URLSearchParams, csrfToken: string): Response {
+  const error = params.get('resign_error');
+  const endsAt = new Date(dues.subscription.current_period_end * 1000).toDateString();
+  return makeHtmlResponse(
+    renderDocument(
+      <form method="post" action="" style={containerStyle}>
+        <CsrfField token={csrfToken} />
+        <h1 style={{ margin: 0 }}>Resign your membership</h1>
+        {error && <p style={{ margin: 0 }}>{error}</p>}
+        <p style={{ margin: 0 }}>If you resign:</p>
+        <ul style={{ margin: 0 }}>
+          <li>You stay a member, with nothing more to pay, until the end of your current billing period on {endsAt}.</li>
+          <li>After that, you lose the rights of membership, such as voting in union elections.</li>
+          <li>You can rejoin at any time by applying again. We'll email you how.</li>
+        </ul>
+        <p style={{ margin: 0 }}>Telling us why you're leaving is optional, and only the Membership Committee will see it.</p>
+        <label style={labelStyle}>
+          Reason
+          <select name="resignation_reason" style={inputStyle}>
+            <option value="">Prefer not to say</option>
+            {Object.entries(RESIGNATION_REASONS).map(([value, label]) => (
+              <option value={value}>{label}</option>
+            ))}
+          </select>
+        </label>
+        <label style={labelStyle}>
+          Anything else you'd like us to know?
+          <textarea name="resignation_feedback" rows={5} maxLength={500} style={inputStyle} />
+        </label>
+        <button
+          type="submit"
+          name="resign"
+          value="1"
+          style={{
+            fontSize: '1.1em',
+            background: 'var(--primary)',
+            padding: '20px 30px',
+            border: 0,
+            borderRadius: 50,
+            color: 'var(--white)',
+          }}
+        >
+          Resign my membership
+        </button>
+        <a href="/" style={{ textAlign: 'center' }}>
+          Cancel
+        </a>
+      </form>,
+    ),
+  );
+}
@@ -0,0 +1,120 @@
+import Stripe from 'stripe';
+
+import { RESIGNATION_REASON, RESIGNED_AT } from '../../common/membership';
+import { getCommitteeEmails } from './admin';
+import { getMemberDues } from './compensation';
+import { recordHistory } from './history';
+import { sendResignationEmail, sendResignationNoticeEmail } from './sendgrid';
+
+/**
+ * The reasons members can give for resigning, by the value stored.  Giving one
+ * is optional.
+ */
+export const RESIGNATION_REASONS: Record<string, string> = {
+  'left-alphabet': 'I no longer work at Alphabet',
+  cost: 'Dues are too expensive',
+  'not-useful': "I don't get enough out of my membership",
+  disagree: "I disagree with the union's direction",
+  other: 'Something else',
+};
+
+// Stripe's limit on the length of cancellation comments.
+const MAX_FEEDBACK_LENGTH = 500;
+
+/**
+ * The end of the membership of a member who has resigned.
+ */
+export interface Resignation {
+  endsAt: Date;
+}
+
+/**
+ * @returns Undefined unless the member has resigned and their membership
+ *     hasn't ended yet
+ */
+export function getResignation(subscription: Stripe.Subscription): Resignation | undefined {
+  return subscription.cancel_at_period_end ? { endsAt: new Date(subscription.current_period_end * 1000) } : undefined;
+}
+
+/**
+ * Cancel the member's subscription at the end of the current billing period,
+ * so they keep their membership for the dues they've paid.  The member is sent
+ * a confirmation, with how to rejoin, and the Membership Committee is told.
+ *
+ * Nothing is changed unless the emails' templates are set.  Once the
+ * subscription is canceled, the resignation stands even if the emails fail,
+ * since the member couldn't resign again to retry them.  Whether each was sent
+ * is recorded in the member's history.
+ *
+ * @param reason One of `RESIGNATION_REASONS`, or empty
+ * @param feedback Anything else the member wanted to tell us, or empty
+ */
+export async function resignMembership(customerId: string, reason: string, feedback: string, env: Env): Promise<Resignation> {
+  const committeeEmails = getCommitteeEmails(env);
+  if (!env.SENDGRID_RESIGNATION_TEMPLATE || (committeeEmails.length && !env.SENDGRID_RESIGNATION_NOTICE_TEMPLATE)) {
+    throw new Error('SENDGRID_RESIGNATION_TEMPLATE and SENDGRID_RESIGNATION_NOTICE_TEMPLATE are needed to resign memberships.');
+  }
+  const stripe = new Stripe(env.STRIPE_API_KEY);
+  const [customer, dues] = await Promise.all([stripe.customers.retrieve(customerId), getMemberDues(customerId, env)]);
+  if (customer.deleted || !dues) {
+    throw new Error(`${customerId} has no membership to resign.`);
+  }
+  if (getResignation(dues.subscription)) {
+    throw new Error(`${customerId} has already resigned.`);
+  }
+  const reasonLabel = RESIGNATION_REASONS[reason] ?? '';
+  const comment = feedback.trim().slice(0, MAX_FEEDBACK_LENGTH);
+  const subscription = await stripe.subscriptions.update(dues.subscription.id, {
+    cancel_at_period_end: true,
+    cancellation_details: {
+      comment: [reasonLabel, comment].filter(Boolean).join(': ') || undefined,
+      feedback: reason === 'cost' ? 'too_expensive' : 'other',
+    },
+  });
+  const at = new Date().toISOString();
+  await stripe.customers.update(customerId, {
+    metadata: {
+      [RESIGNATION_REASON]: reason in RESIGNATION_REASONS ? reason : '',
+      [RESIGNED_AT]: at,
+    },
+  });
+  const resignation: Resignation = { endsAt: new Date(subscription.current_period_end * 1000) };
+  const endsAt = resignation.endsAt.toDateString();
+  const [confirmation, notice] = await Promise.all([
+    trySending(customerId, 'resignation confirmation', () => sendResignationEmail(customer, endsAt, env)),
+    committeeEmails.length
+      ? trySending(customerId, 'resignation notice', () =>
+          sendResignationNoticeEmail(committeeEmails, customer, { endsAt, reason: reasonLabel, feedback: comment }, env),
+        )
+      : 'not set up',
+  ]);
+  if (!committeeEmails.length) {
+    console.error(`COMMITTEE_EMAILS isn't set, so the committee wasn't told ${customerId} resigned.`);
+  }
+  await recordHistory(
+    customerId,
+    {
+      at,
+      change: 'resignation',
+      before: 'member',
+      after: 'resigned',
+      details: { reason: reasonLabel, feedback: comment, confirmationEmail: confirmation, committeeNotice: notice },
+    },
+    env,
+  );
+  return resignation;
+}
+
+/**
+ * @returns Whether the email was `sent` or `failed`.  Failures are logged
+ *     rather than thrown.
+ */
+async function trySending(customerId: string, email: string, send: () => Promise<void>): Promise<'sent' | 'failed'> {
+  try {
+    await send();
+    return 'sent';
+  } catch (e) {
+    console.error(`Couldn't send the ${email} for ${customerId}.`, e);
+    return 'failed';
+  }
+}
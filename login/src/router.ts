@@ -0,0 +1,107 @@
+import { csrfErrorPage, isSameOrigin, isValidCsrfToken } from './csrf';
+import { internalErrorPage, methodNotAllowedPage, notFoundPage } from './error-page';
+import { getMemberSession, MemberSession } from './session';
+
+export type Method = 'GET' | 'POST';
+
+export interface RouteContext {
+  request: Request;
+  env: Env;
+  url: URL;
+}
+
+/**
+ * For pages which are different for logged in members.
+ */
+export interface SessionContext extends RouteContext {
+  session?: MemberSession;
+}
+
+/**
+ * For pages only logged in members can see.
+ */
+export interface MemberContext extends RouteContext {
+  session: MemberSession;
+}
+
+/**
+ * For forms anyone can submit, like the login form.
+ */
+export interface FormContext extends RouteContext {
+  body: FormData;
+}
+
+/**
+ * For forms which change something about the logged in member.
+ */
+export interface MemberFormContext extends MemberContext, FormContext {}
+
+export type Handler<Context extends RouteContext = RouteContext> = (context: Context) => Promise<Response> | Response;
+
+/**
+ * Handlers by path, then by method.
+ */
+export type Routes = Record<string, Partial<Record<Method, Handler>> | undefined>;
+
+/**
+ * Hand the request to its route's handler, or render a 404 or 405 page if
+ * there's no handler for it.  Errors the handler doesn't catch itself, like
+ * Stripe being unavailable, get an error page instead of the runtime's.
+ */
+export async function handleRoute(routes: Routes, request: Request, env: Env): Promise<Response> {
+  const url = new URL(request.url);
+  const route = routes[url.pathname];
+  if (!route) {
+    return notFoundPage();
+  }
+  const handler = route[request.method as Method];
+  if (!handler) {
+    return methodNotAllowedPage(Object.keys(route));
+  }
+  try {
+    return await handler({ request, env, url });
+  } catch (e) {
+    console.error(e);
+    return internalErrorPage();
+  }
+}
+
+export function withSession(handler: Handler<SessionContext>): Handler {
+  return async (context) => handler({ ...context, session: await getMemberSession(context.request, context.env) });
+}
+
+/**
+ * Sends visitors who aren't logged in to the login page.
+ */
+export function requireSession(handler: Handler<MemberContext>): Handler {
+  return withSession(({ session, ...context }) => (session ? handler({ ...context, session }) : redirectToLogin(context.url)));
+}
+
+/**
+ * Turns away forms submitted from other sites, which could otherwise log
+ * visitors in as someone else.
+ *
+ * @param back Where the error page links back to
+ */
+export function withForm(handler: Handler<FormContext>, back = '/'): Handler {
+  return async (context) =>
+    isSameOrigin(context.request) ? handler({ ...context, body: await context.request.formData() }) : csrfErrorPage(back);
+}
+
+/**
+ * Turns away forms which weren't submitted from one of the member's own pages,
+ * by checking their origin and CSRF token.
+ */
+export function requireMemberForm(handler: Handler<MemberFormContext>): Handler {
+  return withForm(async (context) => {
+    const session = await getMemberSession(context.request, context.env);
+    if (!session) {
+      return redirectToLogin(context.url);
+    }
+    return isValidCsrfToken(context.body, session.csrfToken) ? handler({ ...context, session }) : csrfErrorPage('/');
+  });
+}
+
+function redirectToLogin(url: URL): Response {
+  return Response.redirect(new URL('/', url).toString());
+}
@@ -1,10 +1,122 @@
+import type Stripe from 'stripe';
+
+import type { DuesPause } from './dues-pause';
+
 const SENDGRID_ENDPOINT = 'https://api.sendgrid.com/v3';
 
-export function sendLoginEmail(email: string, loginLink: string, env: Env): Promise<void> {
-  const template_id = env.SENDGRID_LOGIN_TEMPLATE;
+interface Recipient {
+  email: string;
+  name?: string;
+}
+
+/**
+ * The templates of emails which give the recipient a login link, as
+ * `loginLink`.  By default it's simply the link they asked for.
+ */
+export type LoginTemplate = 'SENDGRID_LOGIN_TEMPLATE' | 'SENDGRID_COMPENSATION_CONFIRMATION_TEMPLATE';
+
+export function sendLoginEmail(
+  email: string,
+  loginLink: string,
+  env: Env,
+  template: LoginTemplate = 'SENDGRID_LOGIN_TEMPLATE',
+): Promise<void> {
+  const template_id = env[template];
+  if (!template_id) {
+    throw new Error(`${template} is needed to send login link emails.`);
+  }
+  return sendTemplate({ email }, template_id, { loginLink }, env);
+}
+
+/**
+ * Sent to the new email a member has changed theirs to, with a link to confirm
+ * it as `confirmationLink`.
+ */
+export function sendEmailConfirmationEmail(email: string, confirmationLink: string, env: Env): Promise<void> {
+  const template_id = env.SENDGRID_EMAIL_CONFIRMATION_TEMPLATE;
+  if (!template_id) {
+    throw new Error('SENDGRID_EMAIL_CONFIRMATION_TEMPLATE is needed to send email confirmation emails.');
+  }
+  return sendTemplate({ email }, template_id, { confirmationLink }, env);
+}
+
+/**
+ * Sent when the Membership Committee approves an application.
+ */
+export function sendWelcomeEmail(email: string, name: string, env: Env): Promise<void> {
+  const template_id = env.SENDGRID_WELCOME_TEMPLATE;
   if (!template_id) {
-    throw new Error('SENDGRID_LOGIN_TEMPLATE is needed to send login link emails.');
+    throw new Error('SENDGRID_WELCOME_TEMPLATE is needed to send welcome emails.');
   }
+  return sendTemplate({ email, name }, template_id, { name }, env);
+}
+
+/**
+ * Sent when the Membership Committee rejects an application.
+ */
+export function sendRejectionEmail(email: string, name: string, env: Env): Promise<void> {
+  const template_id = env.SENDGRID_REJECTION_TEMPLATE;
+  if (!template_id) {
+    throw new Error('SENDGRID_REJECTION_TEMPLATE is needed to send rejection emails.');
+  }
+  return sendTemplate({ email, name }, template_id, { name }, env);
+}
+
+/**
+ * Sent at each step of a member's request to pause their dues: when it's
+ * requested, approved or rejected, and when the pause starts and ends.  The
+ * template shows the step given by `status`, and `reason` is shown as given.
+ */
+export function sendDuesPauseEmail(customer: Stripe.Customer, pause: DuesPause, env: Env): Promise<void> {
+  const template_id = env.SENDGRID_DUES_PAUSE_TEMPLATE;
+  if (!template_id) {
+    throw new Error('SENDGRID_DUES_PAUSE_TEMPLATE is needed to send dues pause emails.');
+  }
+  const name = customer.name ?? '';
+  return sendTemplate({ email: customer.email ?? '', name }, template_id, { name, ...pause }, env);
+}
+
+/**
+ * Sent to a member who has resigned, confirming the date their membership
+ * ends.  The template explains how to rejoin.
+ */
+export function sendResignationEmail(customer: Stripe.Customer, endsAt: string, env: Env): Promise<void> {
+  const template_id = env.SENDGRID_RESIGNATION_TEMPLATE;
+  if (!template_id) {
+    throw new Error('SENDGRID_RESIGNATION_TEMPLATE is needed to send resignation emails.');
+  }
+  const name = customer.name ?? '';
+  return sendTemplate({ email: customer.email ?? '', name }, template_id, { name, endsAt }, env);
+}
+
+/**
+ * Tells the Membership Committee that a member has resigned, and why, if they
+ * said.
+ */
+export function sendResignationNoticeEmail(
+  committeeEmails: string[],
+  customer: Stripe.Customer,
+  resignation: { endsAt: string; reason: string; feedback: string },
+  env: Env,
+): Promise<void> {
+  const template_id = env.SENDGRID_RESIGNATION_NOTICE_TEMPLATE;
+  if (!template_id) {
+    throw new Error('SENDGRID_RESIGNATION_NOTICE_TEMPLATE is needed to send resignation notices.');
+  }
+  return sendTemplate(
+    committeeEmails.map((email) => ({ email })),
+    template_id,
+    { name: customer.name ?? '', email: customer.email ?? '', ...resignation },
+    env,
+  );
+}
+
+function sendTemplate(
+  to: Recipient | Recipient[],
+  template_id: string,
+  dynamic_template_data: Record<string, unknown>,
+  env: Env,
+): Promise<void> {
   return send(
     {
       from: {
@@ -13,8 +125,8 @@ export function sendLoginEmail(email: string, loginLink: string, env: Env): Prom
       },
       personalizations: [
         {
-          to: [{ email }],
-          dynamic_template_data: { loginLink },
+          to: [to].flat(),
+          dynamic_template_data,
         },
       ],
       template_id,
@@ -48,7 +160,7 @@ async function send(payload: unknown, env: Env): Promise<void> {
 function sendgridHeaders(env: Env): Record<string, string> {
   const token = env.SENDGRID_API_KEY;
   if (!token) {
-    throw new Error('SENDGRID_API_KEY is needed to send login link emails.');
+    throw new Error('SENDGRID_API_KEY is needed to send emails.');
   }
 
   return {
@@ -0,0 +1,102 @@
+import { decode, sign, verify } from '@tsndr/cloudflare-worker-jwt';
+import { parse, serialize } from 'cookie';
+
+import { makeCsrfToken } from './csrf';
+import { getTokenStore } from './token-store';
+
+export const LOGOUT_PATH = '/logout';
+
+const SESSION_COOKIE = 'session_token';
+
+// The `aud` of session tokens, so that login tokens, which are signed with the
+// same secret, can't be used as them.
+export const SESSION_AUDIENCE = 'session';
+
+const SESSION_DURATION = 60 * 60 * 24 * 7; // 7 days.
+
+/**
+ * A logged in member.
+ */
+export interface MemberSession {
+  customerId: string;
+  // Sent back by every form which changes anything, see `csrf.tsx`.
+  csrfToken: string;
+}
+
+/**
+ * Sessions are only valid while they're in the token store, so that they can
+ * be revoked before they expire.
+ *
+ * @returns Undefined unless a member is logged in
+ */
+export async function getMemberSession(request: Request, env: Env): Promise<MemberSession | undefined> {
+  const session = await getSession(request, env);
+  if (!session || !(await getTokenStore(env).get(sessionKey(session.customerId, session.jti)))) {
+    return undefined;
+  }
+  return { customerId: session.customerId, csrfToken: await makeCsrfToken(session.token, env) };
+}
+
+/**
+ * Log in to a new session, then go to the member page.
+ */
+export async function redirectWithSession(customerId: string, request: Request, env: Env): Promise<Response> {
+  const secret = env.LOGIN_LINK_SECRET;
+  if (!secret) throw new Error('LOGIN_LINK_SECRET must be a random 512-byte hex string.');
+  const jti = crypto.randomUUID();
+  const exp = Math.floor(Date.now() / 1000) + SESSION_DURATION;
+  const sessionToken = await sign({ sub: customerId, aud: SESSION_AUDIENCE, jti, exp }, secret);
+  await getTokenStore(env).put(sessionKey(customerId, jti), new Date().toISOString(), { expiration: exp });
+  return redirectWithCookie(new URL('/', request.url), serialize(SESSION_COOKIE, sessionToken, cookieOptions(SESSION_DURATION)));
+}
+
+/**
+ * Revoke the current session, or every session of the logged in member, then go
+ * to the login page.
+ */
+export async function logout(request: Request, env: Env, everywhere = false): Promise<Response> {
+  const session = await getSession(request, env);
+  if (session) {
+    const store = getTokenStore(env);
+    if (everywhere) {
+      const { keys } = await store.list({ prefix: sessionKey(session.customerId, '') });
+      await Promise.all(keys.map(({ name }) => store.delete(name)));
+    } else {
+      await store.delete(sessionKey(session.customerId, session.jti));
+    }
+  }
+  return redirectWithCookie(new URL('/', request.url), serialize(SESSION_COOKIE, '', cookieOptions(0)));
+}
+
+async function getSession(request: Request, env: Env): Promise<{ customerId: string; jti: string; token: string } | undefined> {
+  const sessionToken = parse(request.headers.get('cookie') ?? '')[SESSION_COOKIE] as string | undefined;
+  if (!sessionToken || !(await verify(sessionToken, env.LOGIN_LINK_SECRET))) {
+    return undefined;
+  }
+  // Committee members' sessions have a `role`, and are only valid in their area.
+  const { sub, aud, jti, role } = decode<{ role?: unknown }>(sessionToken).payload ?? {};
+  return sub && aud === SESSION_AUDIENCE && role === undefined && jti ? { customerId: sub, jti, token: sessionToken } : undefined;
+}
+
+/**
+ * Where a session is kept in the token store.  Sessions with a `role` are kept
+ * apart from members', under the role's own prefix.
+ */
+export function sessionKey(subject: string, jti: string, role?: string): string {
+  return `${role ? `${role}-` : ''}session/${subject}/${jti}`;
+}
+
+/**
+ * Not readable by scripts, and by default not sent with requests from other
+ * sites except top-level navigation, like following a link from an email.
+ */
+export function cookieOptions(maxAge: number, { path = '/', sameSite = 'lax' }: { path?: string; sameSite?: 'lax' | 'strict' } = {}) {
+  return { secure: true, httpOnly: true, sameSite, path, maxAge } as const;
+}
+
+export function redirectWithCookie(location: URL, cookie: string): Response {
+  const response = new Response('', { status: 302 });
+  response.headers.set('Set-Cookie', cookie);
+  response.headers.set('Location', location.toString());
+  return response;
+}
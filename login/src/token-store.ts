@@ -0,0 +1,19 @@
+/**
+ * The parts of a KV namespace that login and session tokens are tracked with.
+ */
+export interface TokenStore {
+  get(key: string): Promise<string | null>;
+  // `expiration` is in seconds since the epoch.
+  put(key: string, value: string, options: { expiration: number }): Promise<void>;
+  delete(key: string): Promise<void>;
+  list(options: { prefix: string }): Promise<{ keys: { name: string }[] }>;
+}
+
+/**
+ * The `LOGIN_TOKENS` namespace.  Tokens kept only in memory would be invisible
+ * to other isolates, so there's nothing to fall back to without it.
+ */
+export function getTokenStore(env: Env): TokenStore {
+  if (!env.LOGIN_TOKENS) throw new Error('LOGIN_TOKENS must be bound to a KV namespace.');
+  return env.LOGIN_TOKENS;
+}
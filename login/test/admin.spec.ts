@@ -0,0 +1,107 @@
+import { fetchMock, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { getCookie, interceptLoginEmail, ORIGIN, postForm, postMemberForm } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+async function requestLoginToken(): Promise<string> {
+  const loginLink = interceptLoginEmail();
+  const response = await postForm('/admin', { email: 'committee@example.com' });
+  expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin?link_sent=`);
+  return new URL(loginLink()).searchParams.get('login_token') ?? '';
+}
+
+describe('committee login', () => {
+  it('only uses the link when it is clicked through', async () => {
+    const loginToken = await requestLoginToken();
+    for (let i = 0; i < 2; i++) {
+      const response = await SELF.fetch(`${ORIGIN}/admin?login_token=${loginToken}`);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('Set-Cookie')).toBeNull();
+      expect(await response.text()).toContain(`value="${loginToken}"`);
+    }
+    const response = await postForm('/admin', { login_token: loginToken });
+    expect(response.headers.get('Set-Cookie')).toMatch(
+      /^committee_session=.+; Max-Age=28800; Path=\/admin; HttpOnly; Secure; SameSite=Strict$/,
+    );
+  });
+
+  it('turns away a link that has already been used', async () => {
+    const loginToken = await requestLoginToken();
+    await postForm('/admin', { login_token: loginToken });
+    const response = await postForm('/admin', { login_token: loginToken });
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin?link_invalid=`);
+  });
+
+  it("doesn't send links to other addresses", async () => {
+    const response = await postForm('/admin', { email: 'member@example.com' });
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin?link_sent=`);
+  });
+
+  it('revokes the session on logout', async () => {
+    const cookie = getCookie(await postForm('/admin', { login_token: await requestLoginToken() }));
+    // Forms without the session's CSRF token are only turned away while it's
+    // valid.
+    expect((await postForm('/admin/logout', { csrf_token: 'wrong' }, { Cookie: cookie })).status).toBe(403);
+    const response = await postMemberForm('/admin/logout', cookie);
+    expect(getCookie(response)).toBe('committee_session=');
+    expect((await postForm('/admin/logout', { csrf_token: 'wrong' }, { Cookie: cookie })).status).toBe(302);
+  });
+});
+
+describe('the committee area', () => {
+  it('sends visitors who are not logged in to the login page', async () => {
+    const response = await SELF.fetch(`${ORIGIN}/admin/duplicates`, { redirect: 'manual' });
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin`);
+  });
+
+  it('turns away decisions from committee members who are not logged in', async () => {
+    const response = await postForm('/admin/applications', { customer: 'cus_1', decision: 'approve' });
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin`);
+  });
+
+  it('has no other pages', async () => {
+    expect((await SELF.fetch(`${ORIGIN}/admin/other`)).status).toBe(404);
+  });
+});
+
+describe('application decisions', () => {
+  function interceptApplication(customerId: string, subscriptionId: string): () => URLSearchParams {
+    const stripe = fetchMock.get('https://api.stripe.com');
+    stripe
+      .intercept({ path: `/v1/customers/${customerId}`, method: 'GET' })
+      .reply(200, { id: customerId, object: 'customer', email: 'jane@example.com', metadata: { 'membership-status': 'pending-approval' } });
+    stripe.intercept({ path: (path) => path.startsWith('/v1/subscriptions?'), method: 'GET' }).reply(200, {
+      object: 'list',
+      data: [{ id: subscriptionId, object: 'subscription', pause_collection: { behavior: 'keep_as_draft' } }],
+      has_more: false,
+    });
+    let resumed = new URLSearchParams();
+    stripe.intercept({ path: `/v1/subscriptions/${subscriptionId}`, method: 'POST' }).reply(200, ({ body }) => {
+      resumed = new URLSearchParams(String(body));
+      return { id: subscriptionId, object: 'subscription' };
+    });
+    stripe.intercept({ path: `/v1/customers/${customerId}`, method: 'POST' }).reply(200, { id: customerId, object: 'customer' });
+    return () => resumed;
+  }
+
+  it("approves applications even if the welcome email can't be sent", async () => {
+    const cookie = getCookie(await postForm('/admin', { login_token: await requestLoginToken() }));
+    const resumed = interceptApplication('cus_1', 'sub_1');
+
+    // SENDGRID_WELCOME_TEMPLATE isn't set in the tests.
+    const response = await postMemberForm('/admin/applications', cookie, { customer: 'cus_1', decision: 'approve' });
+
+    expect(resumed().get('pause_collection')).toBe('');
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/admin?decided=approve&email_failed=`);
+  });
+});
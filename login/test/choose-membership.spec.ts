@@ -0,0 +1,30 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+
+import { makeChoiceToken } from '../src/login-link';
+import { getCookie, makeLoginToken, ORIGIN, postForm } from './helpers';
+
+describe('choosing a membership', () => {
+  it('logs in as one of the customers the choice token lists', async () => {
+    const choiceToken = await makeChoiceToken(['cus_first', 'cus_second'], env);
+
+    const response = await postForm('/', { choice_token: choiceToken, customer: 'cus_second' });
+
+    expect(getCookie(response)).toMatch(/^session_token=./);
+  });
+
+  it("is refused for a customer the choice token doesn't list", async () => {
+    const choiceToken = await makeChoiceToken(['cus_first', 'cus_second'], env);
+
+    const response = await postForm('/', { choice_token: choiceToken, customer: 'cus_someone_else' });
+
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/?link_invalid=`);
+  });
+
+  it('is refused with a login token instead of a choice token', async () => {
+    const response = await postForm('/', { choice_token: await makeLoginToken(['cus_first']), customer: 'cus_first' });
+
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+  });
+});
@@ -0,0 +1,62 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+
+import { getMemberSession } from '../src/session';
+import { getCsrfToken, logIn, ORIGIN, postForm, postMemberForm } from './helpers';
+
+async function isLoggedIn(cookie: string): Promise<boolean> {
+  return !!(await getMemberSession(new Request(`${ORIGIN}/`, { headers: { Cookie: cookie } }), env));
+}
+
+describe("member forms aren't accepted", () => {
+  it('without a CSRF token', async () => {
+    const cookie = await logIn('cus_csrf_missing');
+
+    const response = await postForm('/logout', {}, { Cookie: cookie });
+
+    expect(response.status).toBe(403);
+    expect(await isLoggedIn(cookie)).toBe(true);
+  });
+
+  it('with a wrong CSRF token', async () => {
+    const cookie = await logIn('cus_csrf_wrong');
+
+    const response = await postForm('/logout', { csrf_token: '0'.repeat(64) }, { Cookie: cookie });
+
+    expect(response.status).toBe(403);
+    expect(await isLoggedIn(cookie)).toBe(true);
+  });
+
+  it("with another session's CSRF token", async () => {
+    const [cookie, otherCookie] = [await logIn('cus_csrf_other'), await logIn('cus_csrf_other')];
+
+    const response = await postForm('/logout', { csrf_token: await getCsrfToken(otherCookie) }, { Cookie: cookie });
+
+    expect(response.status).toBe(403);
+    expect(await isLoggedIn(cookie)).toBe(true);
+  });
+
+  it('from other sites', async () => {
+    const cookie = await logIn('cus_csrf_origin');
+
+    const response = await postForm(
+      '/logout',
+      { csrf_token: await getCsrfToken(cookie) },
+      { Cookie: cookie, Origin: 'https://evil.example.com' },
+    );
+
+    expect(response.status).toBe(403);
+    expect(await isLoggedIn(cookie)).toBe(true);
+  });
+});
+
+describe('member forms are accepted', () => {
+  it('with the CSRF token of their session', async () => {
+    const cookie = await logIn('cus_csrf_valid');
+
+    const response = await postMemberForm('/logout', cookie);
+
+    expect(response.status).toBe(302);
+    expect(await isLoggedIn(cookie)).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { logIn, ORIGIN, postMemberForm } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+function interceptMember(id: string, membershipStatus: string, pauseCollection: object | null): void {
+  const stripe = fetchMock.get('https://api.stripe.com');
+  stripe
+    .intercept({ path: `/v1/customers/${id}`, method: 'GET' })
+    .reply(200, { id, object: 'customer', email: 'jane@example.com', metadata: { 'membership-status': membershipStatus } });
+  stripe.intercept({ path: (path) => path.startsWith('/v1/subscriptions?'), method: 'GET' }).reply(200, {
+    object: 'list',
+    data: [{ id: 'sub_1', object: 'subscription', status: 'active', pause_collection: pauseCollection }],
+    has_more: false,
+  });
+}
+
+/**
+ * @returns Whether the request was recorded, once it has been
+ */
+function interceptCustomerUpdate(id: string): () => boolean {
+  let updated = false;
+  fetchMock
+    .get('https://api.stripe.com')
+    .intercept({ path: `/v1/customers/${id}`, method: 'POST' })
+    .reply(200, () => {
+      updated = true;
+      return { id, object: 'customer', metadata: {} };
+    });
+  return () => updated;
+}
+
+describe('dues pause requests', () => {
+  const fields = { pause_reason: 'parental-leave', pause_start: '2099-01-01', pause_end: '2099-06-01' };
+
+  it("are recorded even if the member can't be emailed", async () => {
+    const cookie = await logIn('cus_1');
+    interceptMember('cus_1', 'active', null);
+    const updated = interceptCustomerUpdate('cus_1');
+
+    // SENDGRID_DUES_PAUSE_TEMPLATE isn't set in the tests.
+    const response = await postMemberForm('/dues-pause', cookie, fields);
+
+    expect(updated()).toBe(true);
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/?pause_requested=`);
+  });
+
+  it('are refused for applicants waiting for approval', async () => {
+    const cookie = await logIn('cus_2');
+    interceptMember('cus_2', 'pending-approval', { behavior: 'keep_as_draft' });
+
+    const response = await postMemberForm('/dues-pause', cookie, fields);
+
+    expect(new URL(response.headers.get('Location') ?? '').searchParams.get('pause_error')).toBe(
+      'Only active members can pause their dues.',
+    );
+  });
+});
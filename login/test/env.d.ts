@@ -0,0 +1,4 @@
+declare module 'cloudflare:test' {
+  // Controls the type of `import("cloudflare:test").env`.
+  interface ProvidedEnv extends Env {}
+}
@@ -0,0 +1,78 @@
+import { env, fetchMock, SELF } from 'cloudflare:test';
+
+import { makeCsrfToken } from '../src/csrf';
+import { makeLoginLink } from '../src/login-link';
+
+export const ORIGIN = 'https://login.example.com';
+
+/**
+ * Submit a form to the worker as a browser on its own pages would.
+ */
+export function postForm(path: string, fields: Record<string, string>, headers: Record<string, string> = {}): Promise<Response> {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    body.set(name, value);
+  }
+  return SELF.fetch(`${ORIGIN}${path}`, { method: 'POST', headers: { Origin: ORIGIN, ...headers }, body, redirect: 'manual' });
+}
+
+/**
+ * The `name=value` part of a response's cookie, to send back with later
+ * requests.
+ */
+export function getCookie(response: Response): string {
+  return (response.headers.get('Set-Cookie') ?? '').split(';')[0];
+}
+
+/**
+ * The token of a login link for the given customers.
+ */
+export async function makeLoginToken(customerIds: string[]): Promise<string> {
+  return new URL(await makeLoginLink(`${ORIGIN}/`, customerIds, env)).searchParams.get('login_token') ?? '';
+}
+
+/**
+ * @returns The session's cookie
+ */
+export async function logIn(customerId: string): Promise<string> {
+  return getCookie(await postForm('/', { login_token: await makeLoginToken([customerId]) }));
+}
+
+export function getCsrfToken(cookie: string): Promise<string> {
+  return makeCsrfToken(cookie.slice(cookie.indexOf('=') + 1), env);
+}
+
+/**
+ * Submit a form from the member's own pages, with their session's CSRF token.
+ */
+export async function postMemberForm(path: string, cookie: string, fields: Record<string, string> = {}): Promise<Response> {
+  return postForm(path, { csrf_token: await getCsrfToken(cookie), ...fields }, { Cookie: cookie });
+}
+
+/**
+ * Accept the next email sent through SendGrid.
+ *
+ * @returns The login link it was sent with, once it has been
+ */
+export function interceptLoginEmail(): () => string {
+  let loginLink = '';
+  fetchMock
+    .get('https://api.sendgrid.com')
+    .intercept({ path: '/v3/mail/send', method: 'POST' })
+    .reply(202, ({ body }) => {
+      const payload = JSON.parse(String(body)) as { personalizations: { dynamic_template_data: { loginLink: string } }[] };
+      loginLink = payload.personalizations[0].dynamic_template_data.loginLink;
+      return '';
+    });
+  return () => loginLink;
+}
+
+/**
+ * Answer the next search for customers by email with the given customers.
+ */
+export function interceptCustomerSearch(customerIds: string[]): void {
+  fetchMock
+    .get('https://api.stripe.com')
+    .intercept({ path: (path) => path.startsWith('/v1/customers/search?'), method: 'GET' })
+    .reply(200, { object: 'search_result', data: customerIds.map((id) => ({ id, object: 'customer' })), has_more: false });
+}
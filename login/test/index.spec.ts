@@ -1,25 +1,24 @@
-// test/index.spec.ts
-import { env, createExecutionContext, waitOnExecutionContext, SELF } from 'cloudflare:test';
-import { describe, it, expect } from 'vitest';
+import { env, SELF } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+
 import worker from '../src/index';
 
-// For now, you'll need to do something like this to get a correctly-typed
-// `Request` to pass to `worker.fetch()`.
-const IncomingRequest = Request<unknown, IncomingRequestCfProperties>;
+describe('login worker', () => {
+  it('renders the login page (unit style)', async () => {
+    const response = await worker.fetch(new Request('https://login.example.com/'), env);
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('name="email"');
+  });
 
-describe('Hello World worker', () => {
-	it('responds with Hello World! (unit style)', async () => {
-		const request = new IncomingRequest('http://example.com');
-		// Create an empty context to pass to `worker.fetch()`.
-		const ctx = createExecutionContext();
-		const response = await worker.fetch(request, env, ctx);
-		// Wait for all `Promise`s passed to `ctx.waitUntil()` to settle before running test assertions
-		await waitOnExecutionContext(ctx);
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
-	});
+  it('renders the login page (integration style)', async () => {
+    const response = await SELF.fetch('https://login.example.com/');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toContain('name="email"');
+  });
 
-	it('responds with Hello World! (integration style)', async () => {
-		const response = await SELF.fetch('https://example.com');
-		expect(await response.text()).toMatchInlineSnapshot(`"Hello World!"`);
-	});
+  it('renders a 404 page for unknown paths', async () => {
+    const response = await SELF.fetch('https://login.example.com/nowhere');
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('Page not found');
+  });
 });
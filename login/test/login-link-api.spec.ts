@@ -0,0 +1,42 @@
+import { env, fetchMock, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { makeLoginLinkRequest } from '../../common/login-link-api';
+import { interceptCustomerSearch, interceptLoginEmail, ORIGIN } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+describe('login link requests from the signup worker', () => {
+  it('email a link to the login page without a challenge', async () => {
+    interceptCustomerSearch(['cus_1']);
+    const loginLink = interceptLoginEmail();
+    const request = makeLoginLinkRequest(`${ORIGIN}/`, env.LOGIN_LINK_API_KEY ?? '', 'signup@example.com');
+    expect(request.headers.has('Origin')).toBe(false);
+
+    const response = await SELF.fetch(request);
+
+    expect(response.status).toBe(204);
+    expect(loginLink()).toMatch(new RegExp(`^${ORIGIN}/\\?login_token=`));
+  });
+
+  it("aren't limited by IP address", async () => {
+    for (let i = 0; i < 21; i++) {
+      interceptCustomerSearch([]);
+      const request = makeLoginLinkRequest(`${ORIGIN}/`, env.LOGIN_LINK_API_KEY ?? '', `signup-${i}@example.com`);
+      request.headers.set('CF-Connecting-IP', '192.0.2.1');
+      expect((await SELF.fetch(request)).status).toBe(204);
+    }
+  });
+
+  it('are turned away without the key', async () => {
+    const response = await SELF.fetch(makeLoginLinkRequest(`${ORIGIN}/`, 'wrong', 'signup@example.com'));
+    expect(response.status).toBe(401);
+  });
+});
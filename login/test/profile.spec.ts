@@ -0,0 +1,95 @@
+import { env, fetchMock, SELF } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { makeEmailConfirmationLink } from '../src/login-link';
+import { updateProfile } from '../src/profile';
+import { ORIGIN, postForm } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+function interceptCustomer(id: string, email: string): void {
+  fetchMock
+    .get('https://api.stripe.com')
+    .intercept({ path: `/v1/customers/${id}`, method: 'GET' })
+    .reply(200, { id, object: 'customer', email, metadata: { 'personal-email': email } });
+}
+
+/**
+ * @returns The params the customer was updated with, once it has been
+ */
+function interceptCustomerUpdate(id: string): () => URLSearchParams {
+  let params = new URLSearchParams();
+  fetchMock
+    .get('https://api.stripe.com')
+    .intercept({ path: `/v1/customers/${id}`, method: 'POST' })
+    .reply(200, ({ body }) => {
+      params = new URLSearchParams(String(body));
+      return { id, object: 'customer', metadata: {} };
+    });
+  return () => params;
+}
+
+async function makeConfirmToken(customerId: string, before: string, after: string): Promise<string> {
+  const link = await makeEmailConfirmationLink(`${ORIGIN}/confirm-email`, customerId, before, after, env);
+  return new URL(link).searchParams.get('confirm_token') ?? '';
+}
+
+describe('changing email', () => {
+  it("doesn't change it before it's confirmed", async () => {
+    interceptCustomer('cus_unconfirmed', 'old@example.com');
+    const body = new FormData();
+    body.set('personal-email', 'new@example.com');
+
+    const { applied, unconfirmed } = await updateProfile('cus_unconfirmed', body, env);
+
+    expect(applied).toEqual([]);
+    expect(unconfirmed).toEqual({ field: 'personal-email', before: 'old@example.com', after: 'new@example.com' });
+  });
+
+  it('only uses the link when it is clicked through', async () => {
+    const confirmToken = await makeConfirmToken('cus_click', 'old@example.com', 'new@example.com');
+
+    const response = await SELF.fetch(`${ORIGIN}/confirm-email?confirm_token=${confirmToken}`);
+
+    expect(await response.text()).toContain(`value="${confirmToken}"`);
+  });
+
+  it('changes it once confirmed', async () => {
+    const confirmToken = await makeConfirmToken('cus_confirmed', 'old@example.com', 'new@example.com');
+    interceptCustomer('cus_confirmed', 'old@example.com');
+    const update = interceptCustomerUpdate('cus_confirmed');
+
+    const response = await postForm('/confirm-email', { confirm_token: confirmToken });
+
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/confirm-email?email_confirmed=`);
+    expect(update().get('email')).toBe('new@example.com');
+    expect(update().get('metadata[personal-email]')).toBe('new@example.com');
+  });
+
+  it('only confirms it once', async () => {
+    const confirmToken = await makeConfirmToken('cus_twice', 'old@example.com', 'new@example.com');
+    interceptCustomer('cus_twice', 'old@example.com');
+    interceptCustomerUpdate('cus_twice');
+    await postForm('/confirm-email', { confirm_token: confirmToken });
+
+    const response = await postForm('/confirm-email', { confirm_token: confirmToken });
+
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/confirm-email?link_invalid=`);
+  });
+
+  it("doesn't confirm it once the member has changed it again", async () => {
+    const confirmToken = await makeConfirmToken('cus_changed', 'old@example.com', 'new@example.com');
+    interceptCustomer('cus_changed', 'other@example.com');
+
+    const response = await postForm('/confirm-email', { confirm_token: confirmToken });
+
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/confirm-email?link_invalid=`);
+  });
+});
@@ -0,0 +1,42 @@
+import { fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { interceptCustomerSearch, postForm } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+function requestLoginLink(email: string, ip: string): Promise<Response> {
+  return postForm('/', { email }, { 'CF-Connecting-IP': ip });
+}
+
+describe('login link requests', () => {
+  it('are limited to 20 an hour from one IP address', async () => {
+    for (let i = 0; i < 20; i++) {
+      interceptCustomerSearch([]);
+      expect((await requestLoginLink(`ip-limit-${i}@example.com`, '192.0.2.10')).status).toBe(302);
+    }
+
+    const response = await requestLoginLink('ip-limit-20@example.com', '192.0.2.10');
+
+    expect(response.status).toBe(429);
+    expect(await response.text()).toContain('Too many login links have been requested.');
+  });
+
+  it('are limited to 5 an hour for one email address', async () => {
+    for (let i = 0; i < 5; i++) {
+      interceptCustomerSearch([]);
+      expect((await requestLoginLink('email-limit@example.com', `192.0.2.${20 + i}`)).status).toBe(302);
+    }
+
+    const response = await requestLoginLink('Email-Limit@example.com', '192.0.2.30');
+
+    expect(response.status).toBe(429);
+  });
+});
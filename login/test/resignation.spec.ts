@@ -0,0 +1,66 @@
+import { env, fetchMock } from 'cloudflare:test';
+import { afterEach, beforeAll, describe, expect, it } from 'vitest';
+
+import { getHistory } from '../src/history';
+import { resignMembership } from '../src/resignation';
+import { logIn, ORIGIN, postMemberForm } from './helpers';
+
+beforeAll(() => {
+  fetchMock.activate();
+  fetchMock.disableNetConnect();
+});
+
+afterEach(() => {
+  fetchMock.assertNoPendingInterceptors();
+});
+
+/**
+ * A member with a monthly dues subscription, looked up once to resign and once
+ * for their dues.
+ */
+function interceptMember(id: string): void {
+  const stripe = fetchMock.get('https://api.stripe.com');
+  stripe
+    .intercept({ path: `/v1/customers/${id}`, method: 'GET' })
+    .reply(200, { id, object: 'customer', email: 'jane@example.com', name: 'Jane Doe', metadata: {} })
+    .times(2);
+  stripe.intercept({ path: (path) => path.startsWith('/v1/subscriptions?'), method: 'GET' }).reply(200, {
+    object: 'list',
+    data: [
+      {
+        id: 'sub_1',
+        object: 'subscription',
+        currency: 'usd',
+        metadata: {},
+        cancel_at_period_end: false,
+        items: { object: 'list', data: [{ price: { product: env.DUES_PRODUCT_ID, unit_amount: 1000 }, quantity: 1 }] },
+      },
+    ],
+    has_more: false,
+  });
+}
+
+describe('resignation', () => {
+  it("stands, and is recorded, even if the emails can't be sent", async () => {
+    const cookie = await logIn('cus_1');
+    interceptMember('cus_1');
+    const stripe = fetchMock.get('https://api.stripe.com');
+    stripe
+      .intercept({ path: '/v1/subscriptions/sub_1', method: 'POST' })
+      .reply(200, { id: 'sub_1', object: 'subscription', cancel_at_period_end: true, current_period_end: 1893456000 });
+    stripe.intercept({ path: '/v1/customers/cus_1', method: 'POST' }).reply(200, { id: 'cus_1', object: 'customer', metadata: {} });
+    fetchMock.get('https://api.sendgrid.com').intercept({ path: '/v3/mail/send', method: 'POST' }).reply(500, '').times(2);
+
+    const response = await postMemberForm('/resign', cookie, { resignation_reason: 'cost' });
+
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/?resigned=`);
+    const [entry] = await getHistory('cus_1', env, 'resignation');
+    expect(entry.details).toMatchObject({ confirmationEmail: 'failed', committeeNotice: 'failed' });
+  });
+
+  it("doesn't cancel anything until the emails' templates are set", async () => {
+    await expect(resignMembership('cus_2', '', '', { ...env, SENDGRID_RESIGNATION_TEMPLATE: '' })).rejects.toThrow(
+      'SENDGRID_RESIGNATION_TEMPLATE',
+    );
+  });
+});
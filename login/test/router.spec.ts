@@ -0,0 +1,80 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+
+import { handleRoute, requireMemberForm, requireSession, Routes, withForm } from '../src/router';
+
+const ok = () => new Response('ok');
+
+const routes: Routes = {
+  '/': { GET: ok },
+  '/form': { POST: withForm(({ body }) => new Response(String(body.get('name')))) },
+  '/member': { GET: requireSession(ok), POST: requireMemberForm(ok) },
+  '/broken': {
+    GET: () => {
+      throw new Error('Stripe is down');
+    },
+  },
+};
+
+function post(path: string, origin: string, fields: Record<string, string> = {}): Request {
+  const body = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    body.set(name, value);
+  }
+  return new Request(`https://login.example.com${path}`, { method: 'POST', headers: { Origin: origin }, body });
+}
+
+describe('handleRoute', () => {
+  it("calls the route's handler", async () => {
+    const response = await handleRoute(routes, new Request('https://login.example.com/'), env);
+    expect(await response.text()).toBe('ok');
+  });
+
+  it('renders a 404 page for unknown paths', async () => {
+    const response = await handleRoute(routes, new Request('https://login.example.com/nowhere'), env);
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('Page not found');
+  });
+
+  it('renders a 405 page for methods the path does not accept', async () => {
+    const response = await handleRoute(routes, post('/', 'https://login.example.com'), env);
+    expect(response.status).toBe(405);
+    expect(response.headers.get('Allow')).toBe('GET');
+  });
+
+  it('renders an error page when the handler throws', async () => {
+    const response = await handleRoute(routes, new Request('https://login.example.com/broken'), env);
+    expect(response.status).toBe(500);
+    expect(await response.text()).toContain('Something went wrong');
+  });
+});
+
+describe('withForm', () => {
+  it('passes on the body of forms from this site', async () => {
+    const response = await handleRoute(routes, post('/form', 'https://login.example.com', { name: 'Ada' }), env);
+    expect(await response.text()).toBe('Ada');
+  });
+
+  it('turns away forms from other sites', async () => {
+    const response = await handleRoute(routes, post('/form', 'https://evil.example.com', { name: 'Ada' }), env);
+    expect(response.status).toBe(403);
+  });
+});
+
+describe('session middleware', () => {
+  it('sends visitors who are not logged in to the login page', async () => {
+    const response = await handleRoute(routes, new Request('https://login.example.com/member'), env);
+    expect(response.status).toBe(302);
+    expect(response.headers.get('Location')).toBe('https://login.example.com/');
+  });
+
+  it('does the same for member forms', async () => {
+    const response = await handleRoute(routes, post('/member', 'https://login.example.com'), env);
+    expect(response.status).toBe(302);
+  });
+
+  it('checks the origin of member forms first', async () => {
+    const response = await handleRoute(routes, post('/member', 'https://evil.example.com'), env);
+    expect(response.status).toBe(403);
+  });
+});
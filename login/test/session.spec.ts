@@ -0,0 +1,50 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+
+import { getMemberSession } from '../src/session';
+import { getCookie, logIn, makeLoginToken, ORIGIN, postForm, postMemberForm } from './helpers';
+
+function getSession(cookie: string) {
+  return getMemberSession(new Request(`${ORIGIN}/`, { headers: { Cookie: cookie } }), env);
+}
+
+describe('login links', () => {
+  it('log in to a session', async () => {
+    const cookie = await logIn('cus_login');
+    expect(cookie).toMatch(/^session_token=./);
+    expect(await getSession(cookie)).toMatchObject({ customerId: 'cus_login' });
+  });
+
+  it('only work once', async () => {
+    const loginToken = await makeLoginToken(['cus_reused']);
+    await postForm('/', { login_token: loginToken });
+
+    const response = await postForm('/', { login_token: loginToken });
+
+    expect(response.headers.get('Set-Cookie')).toBeNull();
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/?link_invalid=`);
+  });
+});
+
+describe('sessions', () => {
+  it('are refused once logged out of', async () => {
+    const cookie = await logIn('cus_logout');
+
+    const response = await postMemberForm('/logout', cookie);
+
+    expect(response.headers.get('Location')).toBe(`${ORIGIN}/`);
+    expect(getCookie(response)).toBe('session_token=');
+    expect(await getSession(cookie)).toBeUndefined();
+  });
+
+  it('are all refused once logged out of everywhere', async () => {
+    const [cookie, otherCookie] = [await logIn('cus_everywhere'), await logIn('cus_everywhere')];
+    const someoneElsesCookie = await logIn('cus_someone_else');
+
+    await postMemberForm('/logout', cookie, { everywhere: '1' });
+
+    expect(await getSession(cookie)).toBeUndefined();
+    expect(await getSession(otherCookie)).toBeUndefined();
+    expect(await getSession(someoneElsesCookie)).toMatchObject({ customerId: 'cus_someone_else' });
+  });
+});
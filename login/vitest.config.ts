@@ -1,10 +1,34 @@
 import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
 
 export default defineWorkersConfig({
+  resolve: {
+    // Some of Stripe's CommonJS dependencies `require('./')`, which the Workers
+    // pool asks to resolve as an empty path relative to the requiring module.
+    alias: [{ find: /^$/, replacement: './index.js' }],
+  },
   test: {
+    // Some tests make a request for each one a rate limit allows.
+    testTimeout: 30_000,
     poolOptions: {
       workers: {
         wrangler: { configPath: './wrangler.toml' },
+        miniflare: {
+          // The Workers pool needs Node.js compatibility, which the worker
+          // itself doesn't.
+          compatibilityFlags: ['nodejs_compat'],
+          // The secrets `wrangler.toml` leaves out, and the templates of
+          // emails the tests send.  Stripe and SendGrid are mocked with
+          // `fetchMock`.
+          bindings: {
+            LOGIN_LINK_SECRET: 'test-login-link-secret',
+            LOGIN_LINK_API_KEY: 'test-login-link-api-key',
+            STRIPE_API_KEY: 'sk_test_key',
+            SENDGRID_API_KEY: 'test-sendgrid-key',
+            COMMITTEE_EMAILS: 'committee@example.com',
+            SENDGRID_RESIGNATION_TEMPLATE: 'd-resignation',
+            SENDGRID_RESIGNATION_NOTICE_TEMPLATE: 'd-resignation-notice',
+          },
+        },
       },
     },
   },
@@ -3,7 +3,30 @@
 
 interface Env {
   SENDGRID_LOGIN_TEMPLATE: string;
+  SENDGRID_WELCOME_TEMPLATE: string;
+  SENDGRID_REJECTION_TEMPLATE: string;
+  SENDGRID_COMPENSATION_CONFIRMATION_TEMPLATE: string;
+  SENDGRID_DUES_PAUSE_TEMPLATE: string;
+  SENDGRID_RESIGNATION_TEMPLATE: string;
+  SENDGRID_RESIGNATION_NOTICE_TEMPLATE: string;
+  SENDGRID_EMAIL_CONFIRMATION_TEMPLATE: string;
+  LOGIN_URL: string;
+  DUES_PRODUCT_ID: string;
+  INITIATION_FEE_PRODUCT_ID: string;
+  CARD_FEE_PRODUCT_ID: string;
   SENDGRID_API_KEY: string;
   LOGIN_LINK_SECRET: string;
+  // Shared with the signup worker.  Its login link requests are turned away
+  // until it's set, see `common/login-link-api.ts`.
+  LOGIN_LINK_API_KEY?: string;
   STRIPE_API_KEY: string;
+  // Comma-separated.  The committee's area can't be used until it's set.
+  COMMITTEE_EMAILS?: string;
+  MEMBER_HISTORY: KVNamespace;
+  // Optional in local development, see `token-store.ts`.
+  LOGIN_TOKENS?: KVNamespace;
+  RATE_LIMITS: KVNamespace;
+  // Only set if login link requests must solve a Turnstile challenge.
+  TURNSTILE_SITE_KEY?: string;
+  TURNSTILE_SECRET_KEY?: string;
 }
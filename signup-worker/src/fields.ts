@@ -1,46 +1,216 @@
 // Dependency of both server and client sides.
 
-const REQUIRED_METADATA = [
-  'employment-type',
-  'signature',
-  'preferred-name',
-  'personal-email',
-  'personal-phone',
-  'mailing-address-1',
-  'mailing-city',
-  'mailing-region',
-  'mailing-postal-code',
-  'mailing-country',
-  'employer',
-  'job-title',
-  'have-reports',
-  'total-compensation',
-  'sms-consent',
-];
-
-export const REQUIRED_FIELDS = REQUIRED_METADATA.concat([
-  'preferred-name',
-  'personal-email',
-]);
-
-export const FTE_REQUIRED_FIELDS = REQUIRED_FIELDS.concat([
-  'site-code',
-  'org',
-  'team',
-]);
-
-const OPTIONAL_METADATA = [
-  'pronouns',
-  'preferred-language',
-  'mailing-address-2',
-  'building-code',
-  'product-area',
-  'work-email',
-  'birthday',
-  'tshirt-size',
-  'site-code',
-  'org',
-  'team',
-];
-
-export const METADATA = REQUIRED_METADATA.concat(OPTIONAL_METADATA);
+import { CURRENCIES } from '../../common/currencies';
+
+/**
+ * Looks up the value submitted for a field, for fields whose rules depend on
+ * other fields.
+ */
+export type FieldValues = (name: string) => string | null | undefined;
+
+/**
+ * How a field of the join form is filled in and checked.
+ */
+export interface FieldSchema {
+  // Names the field in error messages.
+  label: string;
+  type: 'text' | 'email' | 'tel' | 'date' | 'number' | 'select' | 'checkbox';
+  // The values a `select` or `checkbox` field may take.
+  options?: string[];
+  // At most 500, the longest metadata value Stripe accepts.
+  maxLength: number;
+  required: boolean | ((values: FieldValues) => boolean);
+  // Whether the field is stored in the customer's metadata.
+  metadata: boolean;
+  // Checks the format of a non-empty value, returning what's wrong with it.
+  validate?: (value: string) => string | undefined;
+}
+
+const isFte: FieldSchema['required'] = (values) =>
+  (values('employment-type') ?? 'fte') === 'fte';
+
+function validateEmail(value: string): string | undefined {
+  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+    ? undefined
+    : 'Enter an email address, like name@example.com';
+}
+
+function validatePhone(value: string): string | undefined {
+  const digits = value.replace(/\D/g, '');
+  return /^\+?[\d\s().-]+$/.test(value) &&
+    digits.length >= 7 &&
+    digits.length <= 15
+    ? undefined
+    : 'Enter a phone number, including the area code';
+}
+
+function validateDate(value: string): string | undefined {
+  const date = new Date(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(date.getTime()) &&
+    date.getTime() < Date.now()
+    ? undefined
+    : 'Enter a date in the past, like 1990-12-31';
+}
+
+function validatePostalCode(value: string): string | undefined {
+  return /^[a-z0-9][a-z0-9 -]{1,9}$/i.test(value)
+    ? undefined
+    : 'Enter a postal code, like 94043 or K1A 0B1';
+}
+
+function validateNumber(value: string): string | undefined {
+  const number = Number(value);
+  return Number.isFinite(number) && number >= 0
+    ? undefined
+    : 'Enter a number, without commas or currency symbols';
+}
+
+function text(
+  label: string,
+  required: FieldSchema['required'],
+  maxLength = 100,
+): FieldSchema {
+  return { label, type: 'text', maxLength, required, metadata: true };
+}
+
+function select(
+  label: string,
+  options: string[],
+  required: FieldSchema['required'] = true,
+): FieldSchema {
+  return {
+    label,
+    type: 'select',
+    options,
+    maxLength: Math.max(...options.map((option) => option.length)),
+    required,
+    metadata: true,
+  };
+}
+
+/**
+ * Every field of the join form, in the order they're stored.
+ */
+export const FIELDS: Record<string, FieldSchema> = {
+  'employment-type': select('Employment type', ['fte', 't', 'v', 'c']),
+  signature: text('Signature', true),
+  'preferred-name': text('Name', true),
+  'personal-email': {
+    label: 'Personal email',
+    type: 'email',
+    maxLength: 254,
+    required: true,
+    metadata: true,
+    validate: validateEmail,
+  },
+  'personal-phone': {
+    label: 'Personal phone',
+    type: 'tel',
+    maxLength: 30,
+    required: true,
+    metadata: true,
+    validate: validatePhone,
+  },
+  'mailing-address-1': text('Mailing address', true, 200),
+  'mailing-city': text('City', true),
+  'mailing-region': text('State/province/territory', true),
+  'mailing-postal-code': {
+    label: 'Postal code',
+    type: 'text',
+    maxLength: 10,
+    required: true,
+    metadata: true,
+    validate: validatePostalCode,
+  },
+  'mailing-country': text('Country', true),
+  employer: text('Employer', true),
+  'job-title': text('Job title', true),
+  'have-reports': select('Do other workers report up to you?', ['n', 'y']),
+  'total-compensation': {
+    label: 'Annual total compensation',
+    type: 'number',
+    maxLength: 20,
+    required: true,
+    metadata: true,
+    validate: validateNumber,
+  },
+  'sms-consent': select('SMS updates', ['n', 'y']),
+  pronouns: text('Pronouns', false),
+  'preferred-language': text('Preferred language', false),
+  'mailing-address-2': text('Address line 2', false, 200),
+  'building-code': text('Building code', false),
+  'product-area': text('Product area', false),
+  'work-email': {
+    label: 'Work email',
+    type: 'email',
+    maxLength: 254,
+    required: false,
+    metadata: true,
+    validate: validateEmail,
+  },
+  birthday: {
+    label: 'Birthday',
+    type: 'date',
+    maxLength: 10,
+    required: false,
+    metadata: true,
+    validate: validateDate,
+  },
+  'tshirt-size': select(
+    'T-shirt size',
+    ['xs', 's', 'm', 'l', 'xl', '2xl', '3xl', '4xl', 'other'],
+    false,
+  ),
+  'site-code': text('Site code', isFte),
+  org: text('Organization', isFte),
+  team: text('Team name', isFte),
+  currency: {
+    ...select('Currency', Object.keys(CURRENCIES)),
+    metadata: false,
+  },
+  // Canadian members paying by bank must accept the pre-authorized debit
+  // agreement shown on the form.
+  'pad-agreement': {
+    label: 'Pre-authorized debit agreement',
+    type: 'checkbox',
+    options: ['y'],
+    maxLength: 1,
+    required: (values) => values('payment-method') === 'acss_debit',
+    metadata: true,
+  },
+};
+
+/**
+ * Fields which are stored in the customer's metadata.
+ */
+export const METADATA = Object.keys(FIELDS).filter(
+  (name) => FIELDS[name].metadata,
+);
+
+export function isFieldRequired(name: string, values: FieldValues): boolean {
+  const required = FIELDS[name]?.required ?? false;
+  return typeof required === 'function' ? required(values) : required;
+}
+
+/**
+ * @returns What's wrong with the value submitted for the field, or undefined
+ *     if it's fine
+ */
+export function validateField(
+  name: string,
+  values: FieldValues,
+): string | undefined {
+  const schema = FIELDS[name];
+  const value = values(name) ?? '';
+  if (!value) {
+    return isFieldRequired(name, values) ? 'This field is required' : undefined;
+  }
+  if (schema.options && !schema.options.includes(value)) {
+    return `Choose one of the options for ${schema.label}`;
+  }
+  if (value.length > schema.maxLength) {
+    return `${schema.label} must be at most ${schema.maxLength} characters`;
+  }
+  return schema.validate?.(value);
+}
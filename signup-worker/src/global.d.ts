@@ -1,9 +1,26 @@
 // Globals provided by Worker Secrets
 declare const STRIPE_KEY: string;
-declare const DUES_PRODUCT_ID: string;
+declare const STRIPE_WEBHOOK_SECRET: string;
 declare const DUES_SIGNUP_PRICE_ID: string;
+// The Stripe products dues are billed as, see `common/currencies.ts`.
+declare const DUES_PRODUCT_ID: string;
 declare const INITIATION_FEE_PRODUCT_ID: string;
 declare const CARD_FEE_PRODUCT_ID: string;
+declare const LOGIN_URL: string;
+// Shared with the login worker, see `common/login-link-api.ts`.
+declare const LOGIN_LINK_API_KEY: string;
 
 declare const SENDGRID_API_KEY: string;
 declare const SENDGRID_DYNAMIC_TEMPLATE: string;
+declare const SENDGRID_FINISH_SETUP_TEMPLATE: string;
+
+// Days after signing up that applicants who haven't finished setting up their
+// payment details are reminded, and days after the reminder that their
+// application is canceled.
+declare const SETUP_FOLLOW_UP_DAYS: string;
+declare const SETUP_GRACE_PERIOD_DAYS: string;
+
+// Counts of recent signups, to rate limit them.
+declare const RATE_LIMITS: KVNamespace;
+// Only set if signups must solve a Turnstile challenge.
+declare const TURNSTILE_SECRET_KEY: string | undefined;
@@ -1,221 +1,494 @@
 import { sendgridClient } from './sendgrid';
+import { sendLoginLink } from './login';
 import Stripe from 'stripe';
 import {
-  CARD_PROCESSING_FEE,
-  INITIATION_FEE_CENTS,
-} from '../../common/constants.ts';
+  calculateDues,
+  checkAnnualTotalComp,
+  DuesBreakdown,
+} from '../../common/dues';
+import { DUES_POLICY_VERSION } from '../../common/dues-policy';
+import { MEMBERSHIP_STATUS } from '../../common/membership';
+import { getPaymentMethodTypes, getProducts } from '../../common/currencies';
+import { CHALLENGE_FIELD, verifyChallenge } from '../../common/challenge';
+import {
+  CounterStore,
+  isRateLimited,
+  RateLimit,
+} from '../../common/rate-limit';
 
-import { REQUIRED_FIELDS, METADATA, FTE_REQUIRED_FIELDS } from './fields';
+import { FIELDS, METADATA, validateField } from './fields';
+import { Saga, SagaStepError } from './saga';
 
-declare const STRIPE_KEY: string;
+// Limits on submissions from one IP address, which may be shared by a whole
+// office, and for one email address, which may be retried a few times.
+const IP_RATE_LIMIT: RateLimit = { limit: 20, windowSeconds: 60 * 60 };
+const EMAIL_RATE_LIMIT: RateLimit = { limit: 5, windowSeconds: 60 * 60 };
 
-const stripe = new Stripe(STRIPE_KEY, {
-  httpClient: Stripe.createFetchHttpClient(),
-  apiVersion: '2020-08-27',
-});
+/**
+ * How the form is protected from being scripted.
+ */
+export interface AbuseProtection {
+  counters: CounterStore;
+  // Turnstile's secret key, if a challenge must be solved to submit the form.
+  challengeSecretKey?: string;
+}
 
-// A threshold below which we think someone may have made a mistake (entered
-// monthly income, copied the monthly dues value and pasted it back into the
-// income box, etc) rather than entered their annual income.
-const POTENTIAL_ERROR_TOTAL_COMP_THRESHOLD = 6000;
+// Subscription statuses which mean that a customer already has a membership (or
+// a membership application in progress), as opposed to a former member whose
+// membership has ended.
+const EXISTING_MEMBERSHIP_STATUSES: Stripe.Subscription.Status[] = [
+  'active',
+  'incomplete',
+  'past_due',
+  'paused',
+  'trialing',
+  'unpaid',
+];
 
 /**
- * @param month A `number` indicating the month, as returned by `getUTCMonth()`
- * @param year A `number` indicating the year, as returned by `getUTCFullYear()`
- * @returns A `Date` of the billing anchor for the given month in the given year
+ * Look up any existing customers with the given email address.
+ *
+ * @param submissionId Identifies this submission of the form, so that a retry
+ *     of a submission which already succeeded can be recognised
+ * @throws DuplicateMemberError if any of them still has a membership from a
+ *     different submission
  */
-function getBillingAnchorFor(month: number, year: number): Date {
-  // JS months are zero-indexed, but ISO date string months start at 01
-  const monthOneIndexed = month + 1;
-  // Add a leading zero to the month if necessary to get two digits
-  const monthString = (monthOneIndexed < 10 ? '0' : '') + `${monthOneIndexed}`;
-  // Construct an ISO date string (in UTC) and use it to create a Date
-  // Billing at 08:00 UTC means that we'll get the right day on the invoice if
-  // the Stripe account is in UTC (a likely default), Eastern (local 1400),
-  // or Pacific time
-  return new Date(`${year}-${monthString}-01T08:00:00Z`);
+async function findExistingCustomers(
+  stripe: Stripe,
+  email: string,
+  submissionId: string,
+): Promise<{
+  // The most recently created customer of a former member, so that their
+  // customer record can be reused.
+  formerMember?: Stripe.Customer;
+  // The subscription created by an earlier attempt at this same submission.
+  previousAttempt?: { subscription: Stripe.Subscription; reactivated: boolean };
+}> {
+  const customers = await stripe.customers.list({ email, limit: 100 });
+  for (const customer of customers.data) {
+    const subscriptions = await stripe.subscriptions.list({
+      customer: customer.id,
+      status: 'all',
+      expand: ['data.pending_setup_intent'],
+    });
+    // An attempt which failed and was rolled back left its subscription
+    // canceled, and isn't one to return.
+    const subscription = subscriptions.data.find(
+      (subscription) =>
+        subscription.metadata['submission-id'] === submissionId &&
+        EXISTING_MEMBERSHIP_STATUSES.includes(subscription.status),
+    );
+    if (subscription) {
+      return {
+        previousAttempt: {
+          subscription,
+          reactivated: subscriptions.data.length > 1,
+        },
+      };
+    }
+    if (
+      customer.metadata['submission-id'] !== submissionId &&
+      subscriptions.data.some((subscription) =>
+        EXISTING_MEMBERSHIP_STATUSES.includes(subscription.status),
+      )
+    ) {
+      throw new DuplicateMemberError();
+    }
+  }
+  // Customers are listed newest first.  One created by an earlier attempt at
+  // this submission isn't a former member's, and is created again instead, so
+  // that Stripe replays its creation.
+  return {
+    formerMember: customers.data.find(
+      (customer) => customer.metadata['submission-id'] !== submissionId,
+    ),
+  };
 }
 
 /**
- * Generate a `Date` for the billing anchor of the next month (or of this month,
- * if this month's billing anchor is still in the future).
+ * Stripe request options for one step of the given submission.  Retries of the
+ * same submission reuse the same keys, so Stripe replays the original response
+ * instead of creating new objects.
  */
-function getBillingAnchor(): Date {
-  const now = new Date();
+function idempotent(submissionId: string, step: string): Stripe.RequestOptions {
+  return { idempotencyKey: `${submissionId}:${step}` };
+}
 
-  const thisMonth = now.getUTCMonth();
-  const thisMonthsYear = now.getUTCFullYear();
-  const thisMonthsAnchor = getBillingAnchorFor(thisMonth, thisMonthsYear);
-  if (thisMonthsAnchor.getTime() > now.getTime()) {
-    return thisMonthsAnchor;
-  }
+function randomId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
 
-  // If we're past this month's billing anchor
-  const nextMonth = (thisMonth + 1) % 12;
-  const nextMonthsYear =
-    nextMonth > thisMonth ? thisMonthsYear : thisMonthsYear + 1;
-  const nextMonthsAnchor = getBillingAnchorFor(nextMonth, nextMonthsYear);
-  return nextMonthsAnchor;
+/**
+ * Wrap a saga undo function so that it leaves alone objects from a response
+ * that Stripe replayed.  Those belong to the earlier request with the same
+ * idempotency key, which is responsible for undoing them if it fails.
+ */
+function unlessReplayed<T>(
+  undo: (result: Stripe.Response<T>) => Promise<unknown>,
+): (result: Stripe.Response<T>) => Promise<unknown> {
+  return async (result) => {
+    if (!wasReplayed(result)) {
+      await undo(result);
+    }
+  };
 }
 
-function makeSubscriptionItems(
-  currency: string,
-  totalComp: number,
-  paymentMethod: string,
+function wasReplayed(response: Stripe.Response<unknown>): boolean {
+  return response.lastResponse?.headers['idempotent-replayed'] === 'true';
+}
+
+async function isExistingMembership(
+  stripe: Stripe,
+  subscriptionId: string,
+): Promise<boolean> {
+  const { status } = await stripe.subscriptions.retrieve(subscriptionId);
+  return EXISTING_MEMBERSHIP_STATUSES.includes(status);
+}
+
+/**
+ * The subscription items which bill the monthly part of the member's dues.
+ */
+export function makeSubscriptionItems(
+  dues: DuesBreakdown,
 ): Stripe.SubscriptionCreateParams.Item[] {
-  const duesItem = {
+  const products = getProducts(dues.currency, globalThis);
+  const items = [{ product: products.dues, amount: dues.monthlyDuesCents }];
+  if (dues.monthlyCardFeeCents) {
+    items.push({
+      product: products.cardFee,
+      amount: dues.monthlyCardFeeCents,
+    });
+  }
+  return items.map(({ product, amount }) => ({
     price_data: {
-      currency: currency,
-      product: DUES_PRODUCT_ID,
-      unit_amount: totalCompDollarsToBillingCycleDuesCents(totalComp),
+      currency: dues.currency,
+      product,
+      unit_amount: amount,
       recurring: {
         interval: 'month',
       },
     },
-  } as Stripe.SubscriptionCreateParams.Item;
-  if (paymentMethod === 'card') {
-    return [
-      duesItem,
-      {
-        price_data: {
-          currency: currency,
-          product: CARD_FEE_PRODUCT_ID,
-          unit_amount: getCardFeeCents(totalComp),
-          recurring: {
-            interval: 'month',
-          },
-        },
-      },
-    ];
-  }
-  return [duesItem];
+  }));
 }
 
-function getCardFeeCents(totalComp: number): number {
-  return Math.floor(
-    totalCompDollarsToBillingCycleDuesCents(totalComp) * CARD_PROCESSING_FEE,
-  );
-}
-
-function totalCompDollarsToBillingCycleDuesCents(totalComp: number): number {
-  const annualDues = Math.floor(totalComp / 100);
-  const monthlyDues = Math.floor(annualDues / 12);
-  const monthlyDuesCents = monthlyDues * 100;
-  return monthlyDuesCents;
+function makePaymentSettings(
+  currency: string,
+): Stripe.SubscriptionCreateParams.PaymentSettings {
+  const paymentMethodTypes = getPaymentMethodTypes(
+    currency,
+  ) as Stripe.SubscriptionCreateParams.PaymentSettings.PaymentMethodType[];
+  return {
+    save_default_payment_method: 'on_subscription',
+    payment_method_types: paymentMethodTypes,
+    payment_method_options: paymentMethodTypes.includes('acss_debit')
+      ? {
+          // Members accept a personal PAD agreement on the form.
+          acss_debit: {
+            mandate_options: { transaction_type: 'personal' },
+            verification_method: 'automatic',
+          },
+        }
+      : undefined,
+  };
 }
 
-export async function handleRequest(request: Request): Promise<Response> {
+export async function handleRequest(
+  request: Request,
+  stripe: Stripe,
+  protection: AbuseProtection,
+): Promise<Response> {
   let paymentMethod: string;
   try {
     const fields = await request.formData();
-    for (const fieldName of REQUIRED_FIELDS) {
-      if (!fields.get(fieldName)) {
-        throw new MissingParamError(fieldName);
-      }
-    }
-    if (fields.get('employment-type') === 'fte') {
-      for (const fieldName of FTE_REQUIRED_FIELDS) {
-        if (!fields.get(fieldName)) {
-          throw new MissingParamError(fieldName);
-        }
-      }
+    await checkAbuse(request, fields, protection);
+    const invalidParams = validateFields(fields);
+    if (invalidParams.length) {
+      throw new ValidationError(invalidParams);
     }
     const totalComp = Number(fields.get('total-compensation') as string);
-    if (totalComp < POTENTIAL_ERROR_TOTAL_COMP_THRESHOLD) {
-      throw new InvalidParamError(
-        'total-compensation',
-        'Enter your annual total compensation. If you did so and still receive this error, please' +
-          'email contact@alphabetworkersunion.org to help complete your join request.',
-      );
-    }
 
-    let customer: Stripe.Customer;
+    const email = fields.get('personal-email') as string;
+    // Older versions of the form don't send a submission ID, so can't be
+    // retried safely.
+    const submissionId = (fields.get('submission-id') as string) || randomId();
+    let formerMember: Stripe.Customer | undefined;
     try {
-      paymentMethod = fields.get('payment-method') as string;
-      customer = await stripe.customers.create({
-        email: fields.get('personal-email') as string,
-        name: fields.get('preferred-name') as string,
-        metadata: {
-          ...METADATA.reduce(
-            (metadata, fieldName) => ({
-              ...metadata,
-              [fieldName]: fields.get(fieldName) as string,
-            }),
-            {} as Record<string, string>,
-          ),
-        },
-      });
+      const existing = await findExistingCustomers(stripe, email, submissionId);
+      if (existing.previousAttempt) {
+        const { subscription, reactivated } = existing.previousAttempt;
+        return successResponse(
+          subscription.pending_setup_intent as Stripe.SetupIntent | null,
+          reactivated,
+        );
+      }
+      formerMember = existing.formerMember;
     } catch (error) {
-      console.warn(error);
-      const field = stripeCustomerParamToField(error.param);
-      if (field) {
-        throw new InvalidParamError(field, error.message);
+      if (error instanceof DuplicateMemberError) {
+        // Send them a login link so that they can manage their existing
+        // membership instead.
+        await sendLoginLink(email);
       }
       throw error;
     }
-    const currency = fields.get('currency') as string;
 
-    const subscriptionItems = makeSubscriptionItems(
-      currency,
-      totalComp,
+    paymentMethod = fields.get('payment-method') as string;
+    const customerParams = {
+      email,
+      name: fields.get('preferred-name') as string,
+      metadata: {
+        ...METADATA.reduce(
+          (metadata, fieldName) => ({
+            ...metadata,
+            [fieldName]: fields.get(fieldName) as string,
+          }),
+          {} as Record<string, string>,
+        ),
+        'submission-id': submissionId,
+        [MEMBERSHIP_STATUS]: 'payment-setup-incomplete',
+      },
+    };
+    const dues = calculateDues(
+      {
+        totalComp,
+        currency: fields.get('currency') as string,
+        employmentType: fields.get('employment-type') as string,
+      },
       paymentMethod,
     );
 
-    await stripe.invoiceItems.create({
-      customer: customer.id,
-      price_data: {
-        currency: currency,
-        product: INITIATION_FEE_PRODUCT_ID,
-        unit_amount: INITIATION_FEE_CENTS,
-      },
-    });
-    const subscription = await stripe.subscriptions.create({
-      customer: customer.id,
-      billing_cycle_anchor: Math.floor(getBillingAnchor().valueOf() / 1000),
-      proration_behavior: 'none',
-      payment_behavior: 'default_incomplete',
-      payment_settings: {
-        save_default_payment_method: 'on_subscription',
-        payment_method_types: ['us_bank_account', 'card'],
-      },
-      items: subscriptionItems,
-      expand: ['pending_setup_intent'],
-    });
-    await stripe.subscriptions.update(subscription.id, {
-      pause_collection: {
-        behavior: 'keep_as_draft',
-      },
-    });
-    const setupIntent = subscription.pending_setup_intent;
+    const saga = new Saga();
+    let setupIntent: Stripe.SetupIntent;
+    let isRetry: boolean;
+    try {
+      // Former members rejoin with their existing customer record, updated with
+      // the details they just submitted.
+      const customer = await saga.step(
+        'customer',
+        () =>
+          formerMember
+            ? stripe.customers.update(
+                formerMember.id,
+                customerParams,
+                idempotent(submissionId, 'customer-update'),
+              )
+            : stripe.customers.create(
+                customerParams,
+                idempotent(submissionId, 'customer-create'),
+              ),
+        unlessReplayed((customer) =>
+          formerMember
+            ? stripe.customers.update(
+                customer.id,
+                restoreCustomerParams(formerMember),
+              )
+            : stripe.customers.del(customer.id),
+        ),
+      );
+      await saga.step(
+        'initiation-fee',
+        () =>
+          stripe.invoiceItems.create(
+            {
+              customer: customer.id,
+              price_data: {
+                currency: dues.currency,
+                product: getProducts(dues.currency, globalThis).initiationFee,
+                unit_amount: dues.initiationFeeCents,
+              },
+            },
+            idempotent(submissionId, 'initiation-fee'),
+          ),
+        unlessReplayed((invoiceItem) =>
+          stripe.invoiceItems.del(invoiceItem.id),
+        ),
+      );
+      const subscription = await saga.step(
+        'subscription',
+        () =>
+          stripe.subscriptions.create(
+            {
+              customer: customer.id,
+              billing_cycle_anchor: Math.floor(
+                dues.firstChargeDate.valueOf() / 1000,
+              ),
+              proration_behavior: dues.prorationBehavior,
+              payment_behavior: 'default_incomplete',
+              payment_settings: makePaymentSettings(dues.currency),
+              items: makeSubscriptionItems(dues),
+              metadata: {
+                'submission-id': submissionId,
+                [DUES_POLICY_VERSION]: String(dues.policyVersion),
+              },
+              expand: ['pending_setup_intent'],
+            },
+            idempotent(submissionId, 'subscription'),
+          ),
+        unlessReplayed((subscription) =>
+          stripe.subscriptions.cancel(subscription.id),
+        ),
+      );
+      // Replays show the subscription as it was created, but the attempt which
+      // created it may have failed and been rolled back since.  The form
+      // retries with a new submission ID after an error.
+      if (
+        wasReplayed(subscription) &&
+        !(await isExistingMembership(stripe, subscription.id))
+      ) {
+        throw new Error(
+          `Submission ${submissionId} was already rolled back, so can't be retried.`,
+        );
+      }
+      await saga.step('pause-collection', () =>
+        stripe.subscriptions.update(
+          subscription.id,
+          {
+            pause_collection: {
+              behavior: 'keep_as_draft',
+            },
+          },
+          idempotent(submissionId, 'pause-collection'),
+        ),
+      );
+      setupIntent = subscription.pending_setup_intent as Stripe.SetupIntent;
+      isRetry = wasReplayed(subscription);
+    } catch (error) {
+      const notUndone = await saga.rollback();
+      if (notUndone.length) {
+        console.error(
+          `Partial signup for ${email} left behind: ${notUndone.join(', ')}`,
+        );
+      }
+      throw toSignupError(error);
+    }
 
-    await sendgridClient.sendWelcomeEmail(
-      fields.get('preferred-name') as string,
-      fields.get('personal-email') as string,
-    );
+    // The attempt which actually created the subscription sends the email.
+    if (!isRetry) {
+      await sendgridClient.sendWelcomeEmail(
+        fields.get('preferred-name') as string,
+        fields.get('personal-email') as string,
+      );
+    }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        subscription_client_secret: setupIntent.client_secret,
-      }),
-      {
-        headers: { 'Access-Control-Allow-Origin': '*' },
-      },
-    );
+    return successResponse(setupIntent, Boolean(formerMember));
   } catch (e) {
     console.warn(e);
-    const error =
-      e instanceof InvalidParamError ? e.toObject() : { message: e.message };
-    return new Response(JSON.stringify({ success: false, error }), {
-      status: 400,
+    const body =
+      e instanceof ValidationError
+        ? { errors: e.invalidParams.map((error) => error.toObject()) }
+        : e instanceof InvalidParamError
+        ? { errors: [e.toObject()] }
+        : {
+            error:
+              e instanceof DuplicateMemberError ||
+              e instanceof SignupFailedError ||
+              e instanceof RateLimitedError ||
+              e instanceof ChallengeFailedError
+                ? e.toObject()
+                : { message: e.message },
+          };
+    return new Response(JSON.stringify({ success: false, ...body }), {
+      status:
+        e instanceof DuplicateMemberError
+          ? 409
+          : e instanceof RateLimitedError
+          ? 429
+          : e instanceof ChallengeFailedError
+          ? 403
+          : 400,
       headers: { 'Access-Control-Allow-Origin': '*' },
     });
   }
 }
 
+/**
+ * Turn away submissions over the rate limits, or without a solved challenge,
+ * before any work is done for them.
+ *
+ * @throws RateLimitedError
+ * @throws ChallengeFailedError
+ */
+async function checkAbuse(
+  request: Request,
+  fields: FormData,
+  protection: AbuseProtection,
+): Promise<void> {
+  const ip = request.headers.get('CF-Connecting-IP');
+  const email = (fields.get('personal-email') as string | null)?.toLowerCase();
+  if (
+    await isRateLimited(protection.counters, [
+      { key: ip && `signup-ip:${ip}`, rateLimit: IP_RATE_LIMIT },
+      { key: email && `signup-email:${email}`, rateLimit: EMAIL_RATE_LIMIT },
+    ])
+  ) {
+    throw new RateLimitedError();
+  }
+  if (
+    !(await verifyChallenge(
+      fields.get(CHALLENGE_FIELD) as string | null,
+      protection.challengeSecretKey,
+      ip,
+    ))
+  ) {
+    throw new ChallengeFailedError();
+  }
+}
+
+/**
+ * Check every submitted field, so that all of the mistakes in a submission can
+ * be reported at once.
+ */
+function validateFields(fields: FormData): InvalidParamError[] {
+  const invalidParams: InvalidParamError[] = [];
+  for (const fieldName of Object.keys(FIELDS)) {
+    const message = validateField(
+      fieldName,
+      (name) => fields.get(name) as string | null,
+    );
+    if (message) {
+      invalidParams.push(new InvalidParamError(fieldName, message));
+    }
+  }
+  const totalCompError = checkAnnualTotalComp(
+    Number(fields.get('total-compensation') as string),
+  );
+  if (
+    totalCompError &&
+    !invalidParams.some(({ paramName }) => paramName === 'total-compensation')
+  ) {
+    invalidParams.push(
+      new InvalidParamError('total-compensation', totalCompError),
+    );
+  }
+  return invalidParams;
+}
+
+/**
+ * @param setupIntent The subscription's pending SetupIntent, which the form
+ *     confirms with the member's payment details.  Null if that has already
+ *     been done.
+ * @param reactivated Whether a former member's customer record was reused
+ */
+function successResponse(
+  setupIntent: Stripe.SetupIntent | null,
+  reactivated: boolean,
+): Response {
+  return new Response(
+    JSON.stringify({
+      success: true,
+      subscription_client_secret: setupIntent?.client_secret ?? null,
+      reactivated,
+    }),
+    {
+      headers: { 'Access-Control-Allow-Origin': '*' },
+    },
+  );
+}
+
 class InvalidParamError extends Error {
   constructor(
-    private readonly paramName: string,
+    readonly paramName: string,
     message: string,
   ) {
     super(message);
@@ -226,12 +499,122 @@ class InvalidParamError extends Error {
   }
 }
 
-class MissingParamError extends InvalidParamError {
-  constructor(paramName: string) {
-    super(paramName, 'This field is required');
+/**
+ * Thrown when any submitted fields are invalid, with an error for each one.
+ */
+class ValidationError extends Error {
+  constructor(readonly invalidParams: InvalidParamError[]) {
+    super(`${invalidParams.length} invalid fields`);
+  }
+}
+
+/**
+ * Thrown when someone who already has a membership submits the form again.
+ */
+class DuplicateMemberError extends Error {
+  constructor() {
+    super(
+      'A membership already exists for this email address. We have sent you ' +
+        'a login link so that you can manage it.',
+    );
+  }
+
+  toObject(): { type: 'duplicate-member'; message: string } {
+    return { type: 'duplicate-member', message: this.message };
+  }
+}
+
+/**
+ * Thrown when setting up the membership in Stripe fails part way through.  Any
+ * completed steps will have been rolled back by the time this is thrown.
+ */
+class SignupFailedError extends Error {
+  constructor() {
+    super(
+      'Something went wrong while submitting your membership application, ' +
+        'and nothing has been charged. Please try again. If this keeps ' +
+        'happening, email membership@alphabetworkersunion.org to help ' +
+        'complete your join request.',
+    );
+  }
+
+  toObject(): { type: 'signup-failed'; message: string } {
+    return { type: 'signup-failed', message: this.message };
   }
 }
 
+/**
+ * Thrown when there have been too many submissions from the same IP address,
+ * or for the same email address.
+ */
+class RateLimitedError extends Error {
+  constructor() {
+    super(
+      'There have been too many membership applications from your network ' +
+        'or for your email address. Please wait an hour and try again.',
+    );
+  }
+
+  toObject(): { type: 'rate-limited'; message: string } {
+    return { type: 'rate-limited', message: this.message };
+  }
+}
+
+/**
+ * Thrown when the form requires a challenge, and it wasn't solved.
+ */
+class ChallengeFailedError extends Error {
+  constructor() {
+    super(
+      "We couldn't verify that you're not a bot. Please reload the page and " +
+        'try again.',
+    );
+  }
+
+  toObject(): { type: 'challenge-failed'; message: string } {
+    return { type: 'challenge-failed', message: this.message };
+  }
+}
+
+/**
+ * Convert an error from a failed signup step into one that can be shown on the
+ * form.  Stripe rejecting the submitted customer details is reported against
+ * the relevant field.
+ */
+function toSignupError(error: unknown): Error {
+  if (error instanceof SagaStepError && error.stepName === 'customer') {
+    const cause = error.cause as Stripe.errors.StripeError;
+    const field = stripeCustomerParamToField(cause?.param ?? '');
+    if (field) {
+      return new InvalidParamError(field, cause.message);
+    }
+  }
+  return new SignupFailedError();
+}
+
+/**
+ * Params to put a former member's customer record back the way it was before
+ * they tried to rejoin.
+ */
+function restoreCustomerParams(
+  formerMember: Stripe.Customer,
+): Stripe.CustomerUpdateParams {
+  return {
+    email: formerMember.email ?? '',
+    name: formerMember.name ?? '',
+    metadata: METADATA.reduce(
+      (metadata, fieldName) => ({
+        ...metadata,
+        [fieldName]: formerMember.metadata[fieldName] ?? '',
+      }),
+      {
+        'submission-id': formerMember.metadata['submission-id'] ?? '',
+        [MEMBERSHIP_STATUS]: formerMember.metadata[MEMBERSHIP_STATUS] ?? '',
+      } as Record<string, string>,
+    ),
+  };
+}
+
 function stripeCustomerParamToField(param: string): string | null {
   if (param === 'email') {
     return 'personal-email';
@@ -1,5 +1,44 @@
+import Stripe from 'stripe';
+import { KvCounterStore } from '../../common/rate-limit';
 import { handleRequest } from './handler';
+import { followUpIncompleteSetups } from './setup-follow-up';
+import { handleStripeWebhook } from './webhooks';
+
+const stripe = new Stripe(STRIPE_KEY, {
+  httpClient: Stripe.createFetchHttpClient(),
+  // @ts-expect-error The account is pinned to an older API version than the
+  // one stripe-node's types describe.
+  apiVersion: '2020-08-27',
+});
+
+const protection = {
+  counters: new KvCounterStore(RATE_LIMITS),
+  // Challenges are only required once a secret key has been set.
+  challengeSecretKey:
+    typeof TURNSTILE_SECRET_KEY === 'undefined'
+      ? undefined
+      : TURNSTILE_SECRET_KEY,
+};
 
 addEventListener('fetch', (event) => {
-  event.respondWith(handleRequest(event.request));
+  const url = new URL(event.request.url);
+  if (url.pathname === '/webhooks/stripe' && event.request.method === 'POST') {
+    event.respondWith(handleStripeWebhook(event.request, stripe));
+  } else {
+    event.respondWith(handleRequest(event.request, stripe, protection));
+  }
+});
+
+addEventListener('scheduled', (event) => {
+  event.waitUntil(
+    followUpIncompleteSetups(stripe).then(({ reminded, canceled, failed }) => {
+      console.log(
+        `Setup follow-up: reminded ${reminded.join(', ') || 'none'}; ` +
+          `canceled ${canceled.join(', ') || 'none'}`,
+      );
+      if (failed.length) {
+        console.error(`Setup follow-up failed for ${failed.join(', ')}`);
+      }
+    }),
+  );
 });
@@ -0,0 +1,16 @@
+import { makeLoginLinkRequest } from '../../common/login-link-api';
+
+/**
+ * Ask the login worker to email a magic login link to the given address, as if
+ * the member had entered it on the login page.
+ */
+export function sendLoginLink(email: string): Promise<Response> {
+  return fetch(makeLoginLinkRequest(LOGIN_URL, LOGIN_LINK_API_KEY, email)).then(
+    (response) => {
+      if (response.status >= 400) {
+        console.error('Login link request failed with: ', response.statusText);
+      }
+      return response;
+    },
+  );
+}
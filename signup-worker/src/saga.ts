@@ -0,0 +1,66 @@
+/**
+ * Runs a sequence of dependent steps, recording how to undo each one as it
+ * completes.  If a later step fails, `rollback` undoes the completed steps in
+ * reverse order so that no partial signup is left behind.
+ */
+export class Saga {
+  private readonly completed: Array<{
+    name: string;
+    undo: () => Promise<unknown>;
+  }> = [];
+
+  /**
+   * Run a single step.
+   *
+   * @param name Identifies the step in errors and logs
+   * @param action Performs the step
+   * @param undo Reverses the step, given its result.  Omit for steps which are
+   *     last or have nothing to undo.
+   * @throws SagaStepError wrapping whatever `action` threw
+   */
+  async step<T>(
+    name: string,
+    action: () => Promise<T>,
+    undo?: (result: T) => Promise<unknown>,
+  ): Promise<T> {
+    let result: T;
+    try {
+      result = await action();
+    } catch (error) {
+      throw new SagaStepError(name, error);
+    }
+    if (undo) {
+      this.completed.push({ name, undo: () => undo(result) });
+    }
+    return result;
+  }
+
+  /**
+   * Undo every completed step, most recent first.  Keeps going if an undo
+   * fails, and returns the names of the steps which could not be undone.
+   */
+  async rollback(): Promise<string[]> {
+    const failed: string[] = [];
+    for (const { name, undo } of this.completed.splice(0).reverse()) {
+      try {
+        await undo();
+      } catch (error) {
+        console.error(`Failed to undo signup step "${name}": `, error);
+        failed.push(name);
+      }
+    }
+    return failed;
+  }
+}
+
+/**
+ * Thrown by `Saga.step` when a step fails.
+ */
+export class SagaStepError extends Error {
+  constructor(
+    readonly stepName: string,
+    readonly cause: unknown,
+  ) {
+    super(`Signup step "${stepName}" failed`);
+  }
+}
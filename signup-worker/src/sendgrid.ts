@@ -19,6 +19,28 @@ export class SendgridClient {
   }
 
   sendWelcomeEmail(name: string, toEmail: string) {
+    return this.sendTemplate(SENDGRID_DYNAMIC_TEMPLATE, name, toEmail, {
+      name: name,
+    });
+  }
+
+  /**
+   * Reminds an applicant who never finished setting up their payment details
+   * that they can log in and finish.
+   */
+  sendFinishSetupEmail(name: string, toEmail: string) {
+    return this.sendTemplate(SENDGRID_FINISH_SETUP_TEMPLATE, name, toEmail, {
+      name: name,
+      loginUrl: LOGIN_URL,
+    });
+  }
+
+  private sendTemplate(
+    templateId: string,
+    name: string,
+    toEmail: string,
+    dynamicTemplateData: Record<string, string>,
+  ) {
     const params = JSON.stringify({
       from: {
         email: 'noreply@alphabetworkersunion.org',
@@ -32,12 +54,10 @@ export class SendgridClient {
               name: name,
             },
           ],
-          dynamic_template_data: {
-            name: name,
-          },
+          dynamic_template_data: dynamicTemplateData,
         },
       ],
-      template_id: SENDGRID_DYNAMIC_TEMPLATE,
+      template_id: templateId,
     });
     return fetch(`${SENDGRID_API}mail/send`, {
       method: 'POST',
@@ -0,0 +1,156 @@
+import Stripe from 'stripe';
+import { getProducts } from '../../common/currencies';
+import { MembershipStatus, MEMBERSHIP_STATUS } from '../../common/membership';
+import { sendgridClient } from './sendgrid';
+
+const DAY_SECONDS = 60 * 60 * 24;
+
+// Subscription metadata key for when the applicant was reminded to finish
+// setting up their payment details (as an ISO 8601 date).
+const SETUP_REMINDER_SENT_AT = 'setup-reminder-sent-at';
+
+// Statuses of a SetupIntent which is waiting on the applicant.  Bank debits
+// which are still being verified are `processing`, and left alone.
+const UNCONFIRMED_SETUP_STATUSES: Stripe.SetupIntent.Status[] = [
+  'requires_payment_method',
+  'requires_confirmation',
+  'requires_action',
+];
+
+// Applicants can also finish setup by adding a payment method in the billing
+// portal, which leaves the subscription's own SetupIntent unconfirmed.  Their
+// status tells them apart.
+const INCOMPLETE_SETUP_STATUSES: Array<MembershipStatus | undefined> = [
+  'payment-setup-incomplete',
+  'payment-setup-failed',
+];
+
+/**
+ * What a run of `followUpIncompleteSetups` did, by subscription ID.
+ */
+export interface SetupFollowUpReport {
+  reminded: string[];
+  canceled: string[];
+  failed: string[];
+}
+
+/**
+ * Follow up on applications whose payment details were never set up.
+ *
+ * Applicants are emailed once, `SETUP_FOLLOW_UP_DAYS` after signing up, with a
+ * reminder that they can log in and finish.  If they still haven't
+ * `SETUP_GRACE_PERIOD_DAYS` after that, their subscription and its initiation
+ * fee are canceled.  Runs are safe to repeat: reminders are recorded on the
+ * subscription as they're sent, and canceled subscriptions aren't listed again.
+ */
+export async function followUpIncompleteSetups(
+  stripe: Stripe,
+  now = new Date(),
+): Promise<SetupFollowUpReport> {
+  const report: SetupFollowUpReport = {
+    reminded: [],
+    canceled: [],
+    failed: [],
+  };
+  const nowSeconds = Math.floor(now.getTime() / 1000);
+  const gracePeriodSeconds = Number(SETUP_GRACE_PERIOD_DAYS) * DAY_SECONDS;
+  let startingAfter: string | undefined;
+  do {
+    const subscriptions = await stripe.subscriptions.list({
+      created: { lte: nowSeconds - Number(SETUP_FOLLOW_UP_DAYS) * DAY_SECONDS },
+      expand: ['data.customer', 'data.pending_setup_intent'],
+      limit: 100,
+      starting_after: startingAfter,
+    });
+    for (const subscription of subscriptions.data) {
+      if (!isSetupIncomplete(subscription)) {
+        continue;
+      }
+      const reminderSentAt = subscription.metadata[SETUP_REMINDER_SENT_AT];
+      try {
+        if (!reminderSentAt) {
+          await remind(stripe, subscription, now);
+          report.reminded.push(subscription.id);
+        } else if (
+          nowSeconds - new Date(reminderSentAt).getTime() / 1000 >=
+          gracePeriodSeconds
+        ) {
+          await cancel(stripe, subscription);
+          report.canceled.push(subscription.id);
+        }
+      } catch (error) {
+        console.error(error);
+        report.failed.push(subscription.id);
+      }
+    }
+    startingAfter = subscriptions.has_more
+      ? subscriptions.data[subscriptions.data.length - 1].id
+      : undefined;
+  } while (startingAfter);
+
+  return report;
+}
+
+function isSetupIncomplete(subscription: Stripe.Subscription): boolean {
+  const setupIntent =
+    subscription.pending_setup_intent as Stripe.SetupIntent | null;
+  const customer = subscription.customer as
+    | Stripe.Customer
+    | Stripe.DeletedCustomer;
+  if (
+    !setupIntent ||
+    !UNCONFIRMED_SETUP_STATUSES.includes(setupIntent.status) ||
+    customer.deleted
+  ) {
+    return false;
+  }
+  const status = (customer as Stripe.Customer).metadata[MEMBERSHIP_STATUS];
+  return INCOMPLETE_SETUP_STATUSES.includes(
+    status as MembershipStatus | undefined,
+  );
+}
+
+async function remind(
+  stripe: Stripe,
+  subscription: Stripe.Subscription,
+  now: Date,
+): Promise<void> {
+  const customer = subscription.customer as Stripe.Customer;
+  const response = await sendgridClient.sendFinishSetupEmail(
+    customer.name ?? '',
+    customer.email ?? '',
+  );
+  if (!response.ok) {
+    throw new Error(`Reminder email to ${customer.id} failed.`);
+  }
+  // If this fails, the applicant may be reminded again on the next run.
+  await stripe.subscriptions.update(subscription.id, {
+    metadata: { [SETUP_REMINDER_SENT_AT]: now.toISOString() },
+  });
+}
+
+/**
+ * Cancel the application, including the initiation fee which would otherwise
+ * be charged on the customer's next invoice.
+ */
+async function cancel(
+  stripe: Stripe,
+  subscription: Stripe.Subscription,
+): Promise<void> {
+  const customer = subscription.customer as Stripe.Customer;
+  const products = getProducts(subscription.currency, globalThis);
+  const invoiceItems = await stripe.invoiceItems.list({
+    customer: customer.id,
+    pending: true,
+  });
+  for (const invoiceItem of invoiceItems.data) {
+    const product = invoiceItem.price?.product;
+    if (
+      (typeof product === 'string' ? product : product?.id) ===
+      products.initiationFee
+    ) {
+      await stripe.invoiceItems.del(invoiceItem.id);
+    }
+  }
+  await stripe.subscriptions.cancel(subscription.id);
+}
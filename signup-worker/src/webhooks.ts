@@ -0,0 +1,331 @@
+import Stripe from 'stripe';
+import { CURRENCIES, getProducts } from '../../common/currencies';
+import { calculateCardFee } from '../../common/dues';
+import {
+  MembershipStatus,
+  MEMBERSHIP_STATUS,
+  MEMBERSHIP_STATUS_EVENT,
+  MEMBERSHIP_STATUS_UPDATED,
+} from '../../common/membership';
+
+// Statuses a member can have before their payment details are set up.  Setup
+// events only apply to these, so that a member updating their payment method
+// later doesn't go back to `pending-approval`.  Members who joined before
+// statuses were recorded have none, and are never waiting for setup.
+const PAYMENT_SETUP_STATUSES: MembershipStatus[] = [
+  'payment-setup-incomplete',
+  'payment-setup-failed',
+];
+
+/**
+ * Handle a webhook event sent by Stripe, after checking that Stripe really did
+ * send it.
+ *
+ * Events are safe to receive more than once, or out of order: an event which
+ * is older than the one that last changed a member's status is ignored.
+ *
+ * @link https://stripe.com/docs/webhooks
+ */
+export async function handleStripeWebhook(
+  request: Request,
+  stripe: Stripe,
+): Promise<Response> {
+  let event: Stripe.Event;
+  try {
+    event = await Stripe.webhooks.constructEventAsync(
+      await request.text(),
+      request.headers.get('Stripe-Signature') ?? '',
+      STRIPE_WEBHOOK_SECRET,
+      undefined,
+      Stripe.createSubtleCryptoProvider(),
+    );
+  } catch (error) {
+    console.warn(error);
+    return new Response(JSON.stringify({ received: false }), { status: 400 });
+  }
+
+  const update = getStatusUpdate(event);
+  if (update) {
+    await updateMembershipStatus(stripe, event, update);
+  }
+  const paymentMethodChange = getPaymentMethodChange(event);
+  if (paymentMethodChange) {
+    await syncCardFees(stripe, paymentMethodChange);
+  }
+  return new Response(JSON.stringify({ received: true }));
+}
+
+/**
+ * A change to a member's status.
+ */
+interface StatusUpdate {
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null;
+  status: MembershipStatus;
+  // The statuses which may be changed by this update.  Any, if omitted.
+  from?: MembershipStatus[];
+  // Whether the update only applies while the subscription created at signup
+  // is still paused, waiting for approval.
+  awaitingApproval?: boolean;
+}
+
+/**
+ * @returns Undefined for events which don't change anyone's status
+ */
+function getStatusUpdate(event: Stripe.Event): StatusUpdate | undefined {
+  switch (event.type) {
+    case 'setup_intent.succeeded': {
+      const setupIntent = event.data.object as Stripe.SetupIntent;
+      return {
+        customer: setupIntent.customer,
+        status: 'pending-approval',
+        from: PAYMENT_SETUP_STATUSES,
+        awaitingApproval: true,
+      };
+    }
+    case 'setup_intent.setup_failed': {
+      const setupIntent = event.data.object as Stripe.SetupIntent;
+      return {
+        customer: setupIntent.customer,
+        status: 'payment-setup-failed',
+        from: PAYMENT_SETUP_STATUSES,
+      };
+    }
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      const status = getSubscriptionStatus(subscription);
+      return status && { customer: subscription.customer, status };
+    }
+    case 'invoice.payment_failed': {
+      const invoice = event.data.object as Stripe.Invoice;
+      return { customer: invoice.customer, status: 'in-arrears' };
+    }
+    case 'customer.subscription.deleted': {
+      const subscription = event.data.object as Stripe.Subscription;
+      return { customer: subscription.customer, status: 'canceled' };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @returns Undefined for a paused subscription, which is either still being
+ *     set up or waiting for approval.  Those are tracked by the setup events.
+ */
+function getSubscriptionStatus(
+  subscription: Stripe.Subscription,
+): MembershipStatus | undefined {
+  switch (subscription.status) {
+    case 'canceled':
+    case 'incomplete_expired':
+      return 'canceled';
+    case 'past_due':
+    case 'unpaid':
+      return 'in-arrears';
+    case 'active':
+    case 'trialing':
+      return subscription.pause_collection ? undefined : 'active';
+    default:
+      return undefined;
+  }
+}
+
+async function updateMembershipStatus(
+  stripe: Stripe,
+  event: Stripe.Event,
+  { customer, status, from, awaitingApproval }: StatusUpdate,
+): Promise<void> {
+  if (!customer) {
+    return;
+  }
+  const customerId = typeof customer === 'string' ? customer : customer.id;
+  const current = await stripe.customers.retrieve(customerId);
+  if (current.deleted) {
+    return;
+  }
+  const metadata = (current as Stripe.Customer).metadata;
+  if (
+    metadata[MEMBERSHIP_STATUS_EVENT] === event.id ||
+    Number(metadata[MEMBERSHIP_STATUS_UPDATED] ?? 0) > event.created
+  ) {
+    // Already applied, or superseded by a more recent event.
+    return;
+  }
+  const currentStatus = metadata[MEMBERSHIP_STATUS] as
+    | MembershipStatus
+    | undefined;
+  if (from && !(currentStatus && from.includes(currentStatus))) {
+    return;
+  }
+  if (awaitingApproval && !(await hasPausedSignup(stripe, customerId))) {
+    return;
+  }
+  await stripe.customers.update(customerId, {
+    metadata: {
+      [MEMBERSHIP_STATUS]: status,
+      [MEMBERSHIP_STATUS_UPDATED]: String(event.created),
+      [MEMBERSHIP_STATUS_EVENT]: event.id,
+    },
+  });
+}
+
+/**
+ * @returns Whether the customer has a subscription created by the signup form
+ *     whose collection is still paused
+ */
+async function hasPausedSignup(
+  stripe: Stripe,
+  customerId: string,
+): Promise<boolean> {
+  const subscriptions = await stripe.subscriptions.list({
+    customer: customerId,
+  });
+  return subscriptions.data.some(
+    (subscription) =>
+      subscription.metadata['submission-id'] && subscription.pause_collection,
+  );
+}
+
+/**
+ * A change to how a member pays their dues.
+ */
+interface PaymentMethodChange {
+  customer: string | Stripe.Customer | Stripe.DeletedCustomer | null;
+  // The payment method just set up, for members who have no default yet.
+  setUp?: string | Stripe.PaymentMethod | null;
+}
+
+/**
+ * @returns Undefined for events which don't change how anyone pays
+ */
+function getPaymentMethodChange(
+  event: Stripe.Event,
+): PaymentMethodChange | undefined {
+  const previous = event.data.previous_attributes ?? {};
+  switch (event.type) {
+    case 'setup_intent.succeeded': {
+      const setupIntent = event.data.object as Stripe.SetupIntent;
+      return {
+        customer: setupIntent.customer,
+        setUp: setupIntent.payment_method,
+      };
+    }
+    case 'customer.updated': {
+      const customer = event.data.object as Stripe.Customer;
+      return 'invoice_settings' in previous ? { customer } : undefined;
+    }
+    case 'customer.subscription.updated': {
+      const subscription = event.data.object as Stripe.Subscription;
+      return 'default_payment_method' in previous
+        ? { customer: subscription.customer }
+        : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Add, remove or recalculate the card fee on each of the customer's
+ * subscriptions to match how they actually pay, rather than how the join form
+ * said they would.
+ */
+async function syncCardFees(
+  stripe: Stripe,
+  { customer, setUp }: PaymentMethodChange,
+): Promise<void> {
+  if (!customer) {
+    return;
+  }
+  const customerId = typeof customer === 'string' ? customer : customer.id;
+  const subscriptions = await stripe.subscriptions.list({
+    customer: customerId,
+  });
+  if (!subscriptions.data.length) {
+    return;
+  }
+  const current = await stripe.customers.retrieve(customerId);
+  if (current.deleted) {
+    return;
+  }
+  const customerDefault = (current as Stripe.Customer).invoice_settings
+    .default_payment_method;
+  for (const subscription of subscriptions.data) {
+    const paymentMethodType = await getPaymentMethodType(
+      stripe,
+      subscription.default_payment_method ?? customerDefault ?? setUp,
+    );
+    if (paymentMethodType) {
+      await syncCardFee(stripe, subscription, paymentMethodType);
+    }
+  }
+}
+
+async function getPaymentMethodType(
+  stripe: Stripe,
+  paymentMethod: string | Stripe.PaymentMethod | null | undefined,
+): Promise<string | undefined> {
+  if (!paymentMethod) {
+    return undefined;
+  }
+  return typeof paymentMethod === 'string'
+    ? (await stripe.paymentMethods.retrieve(paymentMethod)).type
+    : paymentMethod.type;
+}
+
+async function syncCardFee(
+  stripe: Stripe,
+  subscription: Stripe.Subscription,
+  paymentMethodType: string,
+): Promise<void> {
+  if (!(subscription.currency in CURRENCIES)) {
+    return;
+  }
+  const products = getProducts(subscription.currency, globalThis);
+  const findItem = (product: string) =>
+    subscription.items.data.find(({ price }) =>
+      typeof price.product === 'string'
+        ? price.product === product
+        : price.product.id === product,
+    );
+  const duesItem = findItem(products.dues);
+  const cardFeeItem = findItem(products.cardFee);
+  if (!duesItem) {
+    return;
+  }
+  const cardFeeCents = calculateCardFee(
+    duesItem.price.unit_amount ?? 0,
+    subscription.currency,
+    paymentMethodType,
+  );
+  // Only the fee's line item changes, so there is nothing to prorate.
+  if (!cardFeeCents) {
+    if (cardFeeItem) {
+      await stripe.subscriptionItems.del(cardFeeItem.id, {
+        proration_behavior: 'none',
+      });
+    }
+    return;
+  }
+  if (cardFeeItem?.price.unit_amount === cardFeeCents) {
+    return;
+  }
+  const priceData = {
+    currency: subscription.currency,
+    product: products.cardFee,
+    unit_amount: cardFeeCents,
+    recurring: { interval: 'month' as const },
+  };
+  if (cardFeeItem) {
+    await stripe.subscriptionItems.update(cardFeeItem.id, {
+      price_data: priceData,
+      proration_behavior: 'none',
+    });
+  } else {
+    await stripe.subscriptionItems.create({
+      subscription: subscription.id,
+      price_data: priceData,
+      proration_behavior: 'none',
+    });
+  }
+}
@@ -1,4 +1,38 @@
 // set up global namespace for worker environment
 import makeServiceWorkerEnv from 'service-worker-mock';
 declare var global: any;
-Object.assign(global, makeServiceWorkerEnv());
+// Node's own fetch API is much closer to the Workers runtime than the mock's.
+const { Request, Response, Headers, URL, URLSearchParams, Blob } = global;
+Object.assign(global, makeServiceWorkerEnv(), {
+  Request,
+  Response,
+  Headers,
+  URL,
+  URLSearchParams,
+  Blob,
+});
+
+// Worker vars and secrets.
+Object.assign(global, {
+  STRIPE_KEY: 'sk_test_FAKE',
+  STRIPE_WEBHOOK_SECRET: 'whsec_FAKE',
+  DUES_SIGNUP_PRICE_ID: 'price_dues_signup',
+  DUES_PRODUCT_ID: 'prod_LKLGmaCbfcvwHk',
+  INITIATION_FEE_PRODUCT_ID: 'prod_LKLPlaeMgnhNNk',
+  CARD_FEE_PRODUCT_ID: 'prod_M2BZrfLu49i6Yi',
+  LOGIN_URL: 'https://login.example.com/',
+  LOGIN_LINK_API_KEY: 'login-link-api-key',
+  SENDGRID_API_KEY: 'FAKE',
+  SENDGRID_DYNAMIC_TEMPLATE: 'd-fake',
+  SENDGRID_FINISH_SETUP_TEMPLATE: 'd-fake-finish-setup',
+  SETUP_FOLLOW_UP_DAYS: '3',
+  SETUP_GRACE_PERIOD_DAYS: '14',
+});
+
+// Record outgoing requests (SendGrid, the login worker) rather than sending
+// them.  Stripe is faked separately, see `fake-stripe.ts`.
+export const fetchRequests: Request[] = [];
+global.fetch = async (input: RequestInfo, init?: RequestInit) => {
+  fetchRequests.push(new Request(input, init));
+  return new Response('{}');
+};
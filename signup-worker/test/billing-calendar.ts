@@ -0,0 +1,202 @@
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import fc from 'fast-check';
+import {
+  BILLING_CALENDAR,
+  BillingCalendar,
+  getFirstCharge,
+} from '../../common/billing-calendar';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Any date this century, to the minute.
+const dates = fc
+  .integer({
+    min: Date.UTC(2000, 0, 1) / 60000,
+    max: Date.UTC(2099, 11, 31) / 60000,
+  })
+  .map((minutes) => new Date(minutes * 60000));
+
+// Dates within a few days of the end of a year.
+const newYears = fc
+  .record({
+    year: fc.integer({ min: 2000, max: 2099 }),
+    offset: fc.integer({ min: -5 * DAY_MS, max: 5 * DAY_MS }),
+  })
+  .map(({ year, offset }) => new Date(Date.UTC(year, 0, 1) + offset));
+
+const calendars: fc.Arbitrary<BillingCalendar> = fc.record({
+  anchorDay: fc.integer({ min: 1, max: 31 }),
+  // Clear of the small hours, when daylight saving changes happen.
+  anchorHour: fc.integer({ min: 4, max: 23 }),
+  timeZone: fc.constantFrom(
+    'UTC',
+    'America/Los_Angeles',
+    'America/Toronto',
+    'America/St_Johns',
+  ),
+  minimumLeadDays: fc.integer({ min: 0, max: 20 }),
+  prorate: fc.boolean(),
+});
+
+function getZonedParts(
+  date: Date,
+  timeZone: string,
+): { year: number; month: number; day: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+  }).formatToParts(date);
+  const part = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return {
+    year: part('year'),
+    month: part('month') - 1,
+    day: part('day'),
+    // Some engines show midnight as 24:00.
+    hour: part('hour') % 24,
+  };
+}
+
+function daysIn(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+describe('getFirstCharge', () => {
+  it('charges on the 1st at 08:00 UTC by default', () => {
+    expect(
+      getFirstCharge(new Date('2024-02-01T07:59:00Z')).date.toISOString(),
+    ).to.equal('2024-02-01T08:00:00.000Z');
+    expect(
+      getFirstCharge(new Date('2024-02-01T08:00:00Z')).date.toISOString(),
+    ).to.equal('2024-03-01T08:00:00.000Z');
+    expect(getFirstCharge(new Date()).prorationBehavior).to.equal('none');
+  });
+
+  it('skips anchors closer than the lead time', () => {
+    const calendar = { ...BILLING_CALENDAR, minimumLeadDays: 7 };
+
+    expect(
+      getFirstCharge(
+        new Date('2024-12-28T00:00:00Z'),
+        calendar,
+      ).date.toISOString(),
+    ).to.equal('2025-02-01T08:00:00.000Z');
+  });
+
+  it('charges in the calendar time zone', () => {
+    const calendar = {
+      ...BILLING_CALENDAR,
+      anchorHour: 0,
+      timeZone: 'America/Toronto',
+    };
+
+    expect(
+      getFirstCharge(
+        new Date('2024-01-15T00:00:00Z'),
+        calendar,
+      ).date.toISOString(),
+    ).to.equal('2024-02-01T05:00:00.000Z');
+    expect(
+      getFirstCharge(
+        new Date('2024-06-15T00:00:00Z'),
+        calendar,
+      ).date.toISOString(),
+    ).to.equal('2024-07-01T04:00:00.000Z');
+  });
+
+  it('prorates if the calendar does', () => {
+    const calendar = { ...BILLING_CALENDAR, prorate: true };
+
+    expect(getFirstCharge(new Date(), calendar).prorationBehavior).to.equal(
+      'create_prorations',
+    );
+  });
+
+  it('always leaves at least the lead time', () => {
+    fc.assert(
+      fc.property(dates, calendars, (now, calendar) => {
+        const { date } = getFirstCharge(now, calendar);
+        expect(date.getTime()).to.be.greaterThan(
+          now.getTime() + calendar.minimumLeadDays * DAY_MS,
+        );
+      }),
+    );
+  });
+
+  it('never skips more than the lead time needs', () => {
+    fc.assert(
+      fc.property(dates, calendars, (now, calendar) => {
+        const { date } = getFirstCharge(now, calendar);
+        // A month, and an hour for daylight saving.
+        expect(date.getTime()).to.be.at.most(
+          now.getTime() + (calendar.minimumLeadDays + 31) * DAY_MS + 3600000,
+        );
+      }),
+    );
+  });
+
+  it('charges on the anchor day, or the last day of shorter months', () => {
+    fc.assert(
+      fc.property(dates, calendars, (now, calendar) => {
+        const { date } = getFirstCharge(now, calendar);
+        const { year, month, day, hour } = getZonedParts(
+          date,
+          calendar.timeZone,
+        );
+        expect(day).to.equal(Math.min(calendar.anchorDay, daysIn(year, month)));
+        expect(hour).to.equal(calendar.anchorHour);
+      }),
+    );
+  });
+
+  it('never charges earlier for a later signup', () => {
+    fc.assert(
+      fc.property(dates, dates, calendars, (a, b, calendar) => {
+        const [earlier, later] = a < b ? [a, b] : [b, a];
+        expect(getFirstCharge(earlier, calendar).date.getTime()).to.be.at.most(
+          getFirstCharge(later, calendar).date.getTime(),
+        );
+      }),
+    );
+  });
+
+  it('rolls over into the next year', () => {
+    fc.assert(
+      fc.property(newYears, (now) => {
+        const { date } = getFirstCharge(now);
+        const year = now.getUTCFullYear();
+        if (now.getUTCMonth() === 11) {
+          expect(date.toISOString()).to.equal(
+            `${year + 1}-01-01T08:00:00.000Z`,
+          );
+        } else {
+          expect(date.getUTCFullYear()).to.equal(year);
+        }
+      }),
+    );
+  });
+
+  it('charges on the last day of February for late anchor days', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 2000, max: 2099 }),
+        fc.integer({ min: 29, max: 31 }),
+        (year, anchorDay) => {
+          const calendar = { ...BILLING_CALENDAR, anchorDay };
+          const { date } = getFirstCharge(
+            new Date(Date.UTC(year, 1, 1)),
+            calendar,
+          );
+          const leap = year % 4 === 0 && year % 100 !== 0;
+          expect(date.getUTCDate()).to.equal(leap || year === 2000 ? 29 : 28);
+          expect(date.getUTCMonth()).to.equal(1);
+        },
+      ),
+    );
+  });
+});
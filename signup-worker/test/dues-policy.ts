@@ -0,0 +1,117 @@
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import {
+  applyDuesPolicy,
+  DUES_POLICIES,
+  DuesMember,
+  DuesPolicy,
+  getDuesPolicy,
+  getDuesPolicyVersion,
+} from '../../common/dues-policy';
+import { FakeStripe } from './fake-stripe';
+import { submit } from './signup-request';
+
+// The kind of policy the bylaws discussions have proposed.
+const POLICY: DuesPolicy = {
+  version: 99,
+  effectiveFrom: '2030-01-01',
+  rules: [
+    {
+      description: 'No dues while on unpaid leave',
+      when: { membershipStatus: ['unpaid-leave'] },
+      rateBasisPoints: 0,
+    },
+    {
+      description: '0.5% of total compensation for interns',
+      when: { employmentType: ['intern', 'student-researcher'] },
+      rateBasisPoints: 50,
+    },
+    {
+      description: '1% of total compensation, from $10 to $200 a month',
+      rateBasisPoints: 100,
+      minimumMonthlyCents: { usd: 1000 },
+      maximumMonthlyCents: { usd: 20000 },
+    },
+  ],
+};
+
+function member(fields: Partial<DuesMember> = {}): DuesMember {
+  return {
+    totalComp: 120000,
+    currency: 'usd',
+    employmentType: 'fte',
+    ...fields,
+  };
+}
+
+describe('applyDuesPolicy', () => {
+  it('charges 1% of total compensation under the first policy', () => {
+    const decision = applyDuesPolicy(member(), DUES_POLICIES[0]);
+
+    expect(decision.monthlyDuesCents).to.equal(10000);
+    expect(decision.policyVersion).to.equal(1);
+    expect(decision.limit).to.be.undefined;
+  });
+
+  it('applies the first rule which matches', () => {
+    const intern = applyDuesPolicy(
+      member({ employmentType: 'intern' }),
+      POLICY,
+    );
+    const onLeave = applyDuesPolicy(
+      member({ employmentType: 'intern', membershipStatus: 'unpaid-leave' }),
+      POLICY,
+    );
+
+    expect(intern.monthlyDuesCents).to.equal(5000);
+    expect(intern.rule.description).to.contain('interns');
+    expect(onLeave.monthlyDuesCents).to.equal(0);
+  });
+
+  it('applies minimums and caps', () => {
+    const low = applyDuesPolicy(member({ totalComp: 6000 }), POLICY);
+    const high = applyDuesPolicy(member({ totalComp: 1000000 }), POLICY);
+
+    expect(low).to.include({ monthlyDuesCents: 1000, limit: 'minimum' });
+    expect(high).to.include({ monthlyDuesCents: 20000, limit: 'maximum' });
+  });
+
+  it('only bounds dues in the currencies it lists', () => {
+    const decision = applyDuesPolicy(
+      member({ totalComp: 6000, currency: 'cad' }),
+      POLICY,
+    );
+
+    expect(decision.monthlyDuesCents).to.equal(500);
+    expect(decision.limit).to.be.undefined;
+  });
+
+  it('rejects members no rule applies to', () => {
+    const policy = { ...POLICY, rules: POLICY.rules.slice(0, 1) };
+
+    expect(() => applyDuesPolicy(member(), policy)).to.throw('no rule');
+  });
+});
+
+describe('getDuesPolicy', () => {
+  it('finds the policy in force at a date', () => {
+    expect(getDuesPolicy(new Date('2024-01-01')).version).to.equal(1);
+    expect(() => getDuesPolicy(new Date('2020-01-01'))).to.throw();
+  });
+
+  it('keeps every version', () => {
+    expect(getDuesPolicyVersion(1)).to.equal(DUES_POLICIES[0]);
+    expect(getDuesPolicyVersion(0)).to.be.undefined;
+  });
+
+  it('is recorded on new subscriptions', async () => {
+    const stripe = new FakeStripe();
+
+    await submit(stripe);
+
+    const [subscription] = [...stripe.subscriptions.values()];
+    expect(subscription.metadata['dues-policy-version']).to.equal(
+      String(getDuesPolicy().version),
+    );
+  });
+});
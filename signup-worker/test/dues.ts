@@ -0,0 +1,123 @@
+import { describe, it, beforeEach } from 'mocha';
+import { expect } from 'chai';
+import { CURRENCIES, formatCents } from '../../common/currencies';
+import { calculateDues, checkAnnualTotalComp } from '../../common/dues';
+import { DuesMember } from '../../common/dues-policy';
+import { FakeStripe } from './fake-stripe';
+import { submit } from './signup-request';
+
+function member(totalComp: number, currency = 'usd'): DuesMember {
+  return { totalComp, currency, employmentType: 'fte' };
+}
+
+describe('calculateDues', () => {
+  it('charges 1% of total compensation, in whole units per month', () => {
+    const dues = calculateDues(member(123456), 'us_bank_account');
+
+    expect(dues.monthlyDuesCents).to.equal(10200);
+    expect(dues.monthlyCardFeeCents).to.equal(0);
+    expect(dues.monthlyTotalCents).to.equal(10200);
+  });
+
+  it('adds a card fee for members paying by card', () => {
+    const dues = calculateDues(member(123456), 'card');
+
+    expect(dues.monthlyCardFeeCents).to.equal(295);
+    expect(dues.monthlyTotalCents).to.equal(10495);
+    expect(formatCents(dues.monthlyTotalCents, 'usd')).to.equal('$104.95');
+  });
+
+  it('uses the fees of the currency paid in', () => {
+    const dues = calculateDues(member(123456, 'cad'), 'acss_debit');
+
+    expect(dues.initiationFeeCents).to.equal(500);
+    expect(formatCents(dues.initiationFeeCents, 'cad')).to.equal('CA$5.00');
+  });
+
+  it('rejects unsupported currencies', () => {
+    expect(() => calculateDues(member(123456, 'eur'), 'card')).to.throw(
+      'Unsupported currency',
+    );
+  });
+
+  it('first charges on the next billing anchor', () => {
+    const before = calculateDues(
+      member(120000),
+      'card',
+      new Date('2023-12-15T00:00:00Z'),
+    );
+    const after = calculateDues(
+      member(120000),
+      'card',
+      new Date('2024-12-01T09:00:00Z'),
+    );
+
+    expect(before.firstChargeDate.toISOString()).to.equal(
+      '2024-01-01T08:00:00.000Z',
+    );
+    expect(after.firstChargeDate.toISOString()).to.equal(
+      '2025-01-01T08:00:00.000Z',
+    );
+  });
+});
+
+describe('the dues shown on the form', () => {
+  let stripe: FakeStripe;
+
+  beforeEach(() => {
+    stripe = new FakeStripe();
+  });
+
+  const totalComps = [6000, 6099, 12345, 99999, 120000, 250001, 1234567];
+  for (const [currency, { bankPaymentMethodType }] of Object.entries(
+    CURRENCIES,
+  )) {
+    for (const paymentMethod of ['card', bankPaymentMethodType ?? 'card']) {
+      for (const totalComp of totalComps) {
+        it(`are billed for ${totalComp} ${currency} paid by ${paymentMethod}`, async () => {
+          const shown = calculateDues(
+            member(totalComp, currency),
+            paymentMethod,
+          );
+
+          await submit(stripe, {
+            'total-compensation': String(totalComp),
+            currency,
+            'payment-method': paymentMethod,
+            'pad-agreement': 'y',
+          });
+
+          const [subscription] = [...stripe.subscriptions.values()];
+          const billedCents = subscription.items.data.reduce(
+            (total, item) => total + (item.price.unit_amount ?? 0),
+            0,
+          );
+          expect(formatCents(billedCents, currency)).to.equal(
+            formatCents(shown.monthlyTotalCents, currency),
+          );
+          expect(subscription.items.data[0].price.currency).to.equal(currency);
+          expect(subscription.items.data).to.have.lengthOf(
+            shown.monthlyCardFeeCents ? 2 : 1,
+          );
+          const [initiationFee] = [...stripe.invoiceItems.values()];
+          expect(initiationFee.amount).to.equal(shown.initiationFeeCents);
+          expect(subscription.billing_cycle_anchor).to.equal(
+            shown.firstChargeDate.valueOf() / 1000,
+          );
+        });
+      }
+    }
+  }
+});
+
+describe('checkAnnualTotalComp', () => {
+  it('accepts annual figures', () => {
+    expect(checkAnnualTotalComp(6000)).to.be.undefined;
+    expect(checkAnnualTotalComp(120000)).to.be.undefined;
+  });
+
+  it('catches figures which are probably monthly, or dues', () => {
+    expect(checkAnnualTotalComp(0)).to.be.a('string');
+    expect(checkAnnualTotalComp(10000 / 12)).to.be.a('string');
+  });
+});
@@ -0,0 +1,412 @@
+import Stripe from 'stripe';
+
+type Method = `${string}.${string}`;
+
+/**
+ * An in-memory stand-in for the parts of the Stripe API used by the worker.
+ *
+ * Any method can be made to fail with `failOn`, and every call is recorded in
+ * `calls` so that tests can check what was (and wasn't) done.  Calls with an
+ * idempotency key are replayed like the real API does, and refused if the key
+ * was first used for a different request.
+ */
+export class FakeStripe {
+  readonly customers = new Map<string, Stripe.Customer>();
+  readonly invoiceItems = new Map<string, Stripe.InvoiceItem>();
+  readonly subscriptions = new Map<string, Stripe.Subscription>();
+  readonly paymentMethods = new Map<string, Stripe.PaymentMethod>();
+  readonly calls: Method[] = [];
+
+  // Methods which throw, and how many more times they will.
+  private readonly failures = new Map<Method, number>();
+  private readonly idempotentRequests = new Map<
+    string,
+    { method: Method; params: string; response: unknown }
+  >();
+  private nextId = 1;
+
+  /**
+   * Make subsequent calls to the given method throw.
+   *
+   * @param times How many calls throw before the method works again, by default
+   *     all of them
+   */
+  failOn(method: Method, times = Infinity): this {
+    this.failures.set(method, times);
+    return this;
+  }
+
+  /**
+   * The fake, typed as the real client so it can be passed to the worker.
+   */
+  asStripe(): Stripe {
+    return {
+      customers: {
+        create: this.wrap('customers.create', this.createCustomer),
+        update: this.wrap('customers.update', this.updateCustomer),
+        del: this.wrap('customers.del', this.deleteCustomer),
+        list: this.wrap('customers.list', this.listCustomers),
+        retrieve: this.wrap('customers.retrieve', this.retrieveCustomer),
+      },
+      invoiceItems: {
+        create: this.wrap('invoiceItems.create', this.createInvoiceItem),
+        del: this.wrap('invoiceItems.del', this.deleteInvoiceItem),
+        list: this.wrap('invoiceItems.list', this.listInvoiceItems),
+      },
+      subscriptions: {
+        create: this.wrap('subscriptions.create', this.createSubscription),
+        update: this.wrap('subscriptions.update', this.updateSubscription),
+        cancel: this.wrap('subscriptions.cancel', this.cancelSubscription),
+        retrieve: this.wrap(
+          'subscriptions.retrieve',
+          this.retrieveSubscription,
+        ),
+        list: this.wrap('subscriptions.list', this.listSubscriptions),
+      },
+      subscriptionItems: {
+        create: this.wrap(
+          'subscriptionItems.create',
+          this.createSubscriptionItem,
+        ),
+        update: this.wrap(
+          'subscriptionItems.update',
+          this.updateSubscriptionItem,
+        ),
+        del: this.wrap('subscriptionItems.del', this.deleteSubscriptionItem),
+      },
+      paymentMethods: {
+        retrieve: this.wrap(
+          'paymentMethods.retrieve',
+          this.retrievePaymentMethod,
+        ),
+      },
+    } as unknown as Stripe;
+  }
+
+  /**
+   * Add a customer directly, as if they had signed up before.
+   */
+  addCustomer(
+    email: string,
+    subscriptionStatus?: Stripe.Subscription.Status,
+  ): Stripe.Customer {
+    const customer = this.createCustomer({ email, metadata: {} });
+    if (subscriptionStatus) {
+      const subscription = this.createSubscription({
+        customer: customer.id,
+        items: [],
+      });
+      subscription.status = subscriptionStatus;
+    }
+    return customer;
+  }
+
+  /**
+   * Add a payment method of the given type, as if a customer had set it up.
+   */
+  addPaymentMethod(
+    type: Stripe.PaymentMethod.Type,
+    id = this.id('pm'),
+  ): Stripe.PaymentMethod {
+    const paymentMethod = {
+      id,
+      object: 'payment_method',
+      type,
+    } as Stripe.PaymentMethod;
+    this.paymentMethods.set(paymentMethod.id, paymentMethod);
+    return paymentMethod;
+  }
+
+  private wrap<P extends unknown[], R>(
+    method: Method,
+    implementation: (...params: P) => R,
+  ): (...params: P) => Promise<R> {
+    return async (...params: P) => {
+      this.calls.push(method);
+      const failures = this.failures.get(method) ?? 0;
+      if (failures > 0) {
+        this.failures.set(method, failures - 1);
+        throw Object.assign(new Error(`${method} failed`), {
+          type: 'StripeAPIError',
+        });
+      }
+      const options = params[params.length - 1] as Stripe.RequestOptions;
+      const idempotencyKey = options?.idempotencyKey;
+      const request = idempotencyKey
+        ? this.idempotentRequests.get(idempotencyKey)
+        : undefined;
+      if (request) {
+        // Like the real API, keys can only be reused for the same request.
+        if (
+          request.method !== method ||
+          request.params !== JSON.stringify(params)
+        ) {
+          throw Object.assign(
+            new Error(
+              'Keys for idempotent requests can only be used with the same parameters they were first used with.',
+            ),
+            { type: 'StripeIdempotencyError' },
+          );
+        }
+        return {
+          ...(request.response as R),
+          lastResponse: { headers: { 'idempotent-replayed': 'true' } },
+        };
+      }
+      // Like the real API, callers get a copy rather than the stored object.
+      const response = JSON.parse(
+        JSON.stringify(implementation.apply(this, params)),
+      );
+      if (idempotencyKey) {
+        this.idempotentRequests.set(idempotencyKey, {
+          method,
+          params: JSON.stringify(params),
+          response,
+        });
+      }
+      return response;
+    };
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${this.nextId++}`;
+  }
+
+  private createCustomer(params: Stripe.CustomerCreateParams): Stripe.Customer {
+    const customer = {
+      id: this.id('cus'),
+      object: 'customer',
+      created: this.nextId,
+      email: params.email ?? null,
+      name: params.name ?? null,
+      metadata: { ...params.metadata },
+      invoice_settings: { default_payment_method: null },
+    } as unknown as Stripe.Customer;
+    this.customers.set(customer.id, customer);
+    return customer;
+  }
+
+  private updateCustomer(
+    id: string,
+    params: Stripe.CustomerUpdateParams,
+  ): Stripe.Customer {
+    const customer = this.get(this.customers, id);
+    Object.assign(customer, {
+      ...params,
+      metadata: { ...customer.metadata, ...params.metadata },
+    });
+    return customer;
+  }
+
+  private deleteCustomer(id: string): Stripe.DeletedCustomer {
+    this.get(this.customers, id);
+    this.customers.delete(id);
+    for (const subscription of this.subscriptions.values()) {
+      if (subscription.customer === id) {
+        subscription.status = 'canceled';
+      }
+    }
+    return { id, object: 'customer', deleted: true };
+  }
+
+  private retrieveCustomer(id: string): Stripe.Customer {
+    return this.get(this.customers, id);
+  }
+
+  private listCustomers(
+    params: Stripe.CustomerListParams,
+  ): Stripe.ApiList<Stripe.Customer> {
+    const data = [...this.customers.values()]
+      .filter((customer) => customer.email === params.email)
+      .reverse();
+    return { object: 'list', data, has_more: false, url: '/v1/customers' };
+  }
+
+  private createInvoiceItem(
+    params: Stripe.InvoiceItemCreateParams,
+  ): Stripe.InvoiceItem {
+    const invoiceItem = {
+      id: this.id('ii'),
+      object: 'invoiceitem',
+      customer: params.customer,
+      currency: params.price_data?.currency,
+      amount: params.price_data?.unit_amount,
+      price: { product: params.price_data?.product },
+    } as Stripe.InvoiceItem;
+    this.invoiceItems.set(invoiceItem.id, invoiceItem);
+    return invoiceItem;
+  }
+
+  private deleteInvoiceItem(id: string): Stripe.DeletedInvoiceItem {
+    this.get(this.invoiceItems, id);
+    this.invoiceItems.delete(id);
+    return { id, object: 'invoiceitem', deleted: true };
+  }
+
+  private listInvoiceItems(
+    params: Stripe.InvoiceItemListParams,
+  ): Stripe.ApiList<Stripe.InvoiceItem> {
+    const data = [...this.invoiceItems.values()].filter(
+      (invoiceItem) => invoiceItem.customer === params.customer,
+    );
+    return { object: 'list', data, has_more: false, url: '/v1/invoiceitems' };
+  }
+
+  private createSubscription(
+    params: Stripe.SubscriptionCreateParams,
+  ): Stripe.Subscription {
+    this.get(this.customers, params.customer);
+    const id = this.id('sub');
+    const subscription = {
+      id,
+      object: 'subscription',
+      customer: params.customer,
+      status: 'active',
+      created: Math.floor(Date.now() / 1000),
+      currency: params.items?.[0]?.price_data?.currency ?? 'usd',
+      default_payment_method: null,
+      billing_cycle_anchor: params.billing_cycle_anchor,
+      payment_settings: params.payment_settings,
+      metadata: { ...params.metadata },
+      pause_collection: null,
+      items: {
+        object: 'list',
+        data: (params.items ?? []).map((item) =>
+          this.makeSubscriptionItem(item.price_data),
+        ),
+      },
+      pending_setup_intent: {
+        id: this.id('seti'),
+        object: 'setup_intent',
+        status: 'requires_payment_method',
+        client_secret: `seti_secret_${id}`,
+      },
+    } as unknown as Stripe.Subscription;
+    this.subscriptions.set(id, subscription);
+    return subscription;
+  }
+
+  private updateSubscription(
+    id: string,
+    params: Stripe.SubscriptionUpdateParams,
+  ): Stripe.Subscription {
+    const subscription = this.get(this.subscriptions, id);
+    subscription.metadata = {
+      ...subscription.metadata,
+      ...(params.metadata as Stripe.Metadata),
+    };
+    if (params.default_payment_method !== undefined) {
+      subscription.default_payment_method =
+        params.default_payment_method || null;
+    }
+    if (params.pause_collection !== undefined) {
+      subscription.pause_collection = params.pause_collection
+        ? ({
+            behavior: params.pause_collection.behavior,
+            resumes_at: params.pause_collection.resumes_at ?? null,
+          } as Stripe.Subscription.PauseCollection)
+        : null;
+    }
+    return subscription;
+  }
+
+  private retrieveSubscription(id: string): Stripe.Subscription {
+    return this.get(this.subscriptions, id);
+  }
+
+  private cancelSubscription(id: string): Stripe.Subscription {
+    const subscription = this.get(this.subscriptions, id);
+    subscription.status = 'canceled';
+    return subscription;
+  }
+
+  private listSubscriptions(
+    params: Stripe.SubscriptionListParams,
+  ): Stripe.ApiList<Stripe.Subscription> {
+    const created = params.created as Stripe.RangeQueryParam | undefined;
+    const data = [...this.subscriptions.values()]
+      .filter(
+        (subscription) =>
+          (!params.customer || subscription.customer === params.customer) &&
+          (params.status === 'all' || subscription.status !== 'canceled') &&
+          (created?.lte === undefined || subscription.created <= created.lte),
+      )
+      .map((subscription) =>
+        params.expand?.includes('data.customer')
+          ? {
+              ...subscription,
+              customer: this.get(
+                this.customers,
+                subscription.customer as string,
+              ),
+            }
+          : subscription,
+      );
+    return { object: 'list', data, has_more: false, url: '/v1/subscriptions' };
+  }
+
+  private makeSubscriptionItem(
+    priceData?: Stripe.SubscriptionItemCreateParams.PriceData,
+  ): Stripe.SubscriptionItem {
+    return {
+      id: this.id('si'),
+      object: 'subscription_item',
+      price: {
+        currency: priceData?.currency,
+        product: priceData?.product,
+        unit_amount: priceData?.unit_amount,
+      },
+    } as Stripe.SubscriptionItem;
+  }
+
+  private createSubscriptionItem(
+    params: Stripe.SubscriptionItemCreateParams,
+  ): Stripe.SubscriptionItem {
+    const subscription = this.get(this.subscriptions, params.subscription);
+    const item = this.makeSubscriptionItem(params.price_data);
+    subscription.items.data.push(item);
+    return item;
+  }
+
+  private updateSubscriptionItem(
+    id: string,
+    params: Stripe.SubscriptionItemUpdateParams,
+  ): Stripe.SubscriptionItem {
+    const item = this.getSubscriptionItem(id);
+    Object.assign(item.price, {
+      unit_amount: params.price_data?.unit_amount,
+    });
+    return item;
+  }
+
+  private deleteSubscriptionItem(id: string): Stripe.DeletedSubscriptionItem {
+    const item = this.getSubscriptionItem(id);
+    for (const subscription of this.subscriptions.values()) {
+      subscription.items.data = subscription.items.data.filter(
+        (other) => other !== item,
+      );
+    }
+    return { id, object: 'subscription_item', deleted: true };
+  }
+
+  private getSubscriptionItem(id: string): Stripe.SubscriptionItem {
+    const items = [...this.subscriptions.values()].flatMap(
+      (subscription) => subscription.items.data,
+    );
+    return this.get(new Map(items.map((item) => [item.id, item])), id);
+  }
+
+  private retrievePaymentMethod(id: string): Stripe.PaymentMethod {
+    return this.get(this.paymentMethods, id);
+  }
+
+  private get<T>(store: Map<string, T>, id: string): T {
+    const object = store.get(id);
+    if (!object) {
+      throw Object.assign(new Error(`No such object: '${id}'`), {
+        type: 'StripeInvalidRequestError',
+      });
+    }
+    return object;
+  }
+}
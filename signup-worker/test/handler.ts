@@ -1,24 +1,367 @@
-import { describe, it } from 'mocha';
+import { describe, it, beforeEach } from 'mocha';
 import { expect } from 'chai';
-import { handleRequest } from '../src/handler';
-
-describe('handler returns response with request method', () => {
-  const methods = [
-    'GET',
-    'HEAD',
-    'POST',
-    'PUT',
-    'DELETE',
-    'CONNECT',
-    'OPTIONS',
-    'TRACE',
-    'PATCH',
-  ];
-  methods.forEach((method) => {
-    it(method, async () => {
-      const result = await handleRequest(new Request('/', { method }));
-      const text = await result.text();
-      expect(text).to.include(method);
+import { MemoryCounterStore } from '../../common/rate-limit';
+import { FakeStripe } from './fake-stripe';
+import { fetchRequests } from './_setup';
+import { submit } from './signup-request';
+
+declare var global: any;
+
+describe('handleRequest', () => {
+  let stripe: FakeStripe;
+
+  beforeEach(() => {
+    stripe = new FakeStripe();
+    fetchRequests.length = 0;
+  });
+
+  it('creates a paused subscription for a new member', async () => {
+    const { status, body } = await submit(stripe);
+
+    expect(status).to.equal(200);
+    expect(body.success).to.equal(true);
+    expect(body.reactivated).to.equal(false);
+    const [customer] = [...stripe.customers.values()];
+    expect(customer.email).to.equal('jane@example.com');
+    expect(customer.metadata['site-code']).to.equal('US-MTV');
+    expect(stripe.invoiceItems.size).to.equal(1);
+    const [subscription] = [...stripe.subscriptions.values()];
+    expect(subscription.customer).to.equal(customer.id);
+    expect(subscription.pause_collection?.behavior).to.equal('keep_as_draft');
+    expect(body.subscription_client_secret).to.equal(
+      `seti_secret_${subscription.id}`,
+    );
+  });
+
+  describe('sets up bank payments', () => {
+    it('by ACH in US dollars', async () => {
+      await submit(stripe);
+
+      const [subscription] = [...stripe.subscriptions.values()];
+      expect(subscription.payment_settings?.payment_method_types).to.deep.equal(
+        ['us_bank_account', 'card'],
+      );
+      expect(subscription.payment_settings?.payment_method_options).to.be
+        .undefined;
+    });
+
+    it('by pre-authorized debit in Canadian dollars', async () => {
+      const { status } = await submit(stripe, {
+        currency: 'cad',
+        'payment-method': 'acss_debit',
+        'pad-agreement': 'y',
+      });
+
+      expect(status).to.equal(200);
+      const [subscription] = [...stripe.subscriptions.values()];
+      const paymentSettings = subscription.payment_settings;
+      expect(paymentSettings?.payment_method_types).to.deep.equal([
+        'acss_debit',
+        'card',
+      ]);
+      expect(
+        paymentSettings?.payment_method_options?.acss_debit?.mandate_options,
+      ).to.deep.equal({ transaction_type: 'personal' });
+      const [customer] = [...stripe.customers.values()];
+      expect(customer.metadata['pad-agreement']).to.equal('y');
+    });
+
+    it('only once the PAD agreement is accepted', async () => {
+      const { status, body } = await submit(stripe, {
+        currency: 'cad',
+        'payment-method': 'acss_debit',
+      });
+
+      expect(status).to.equal(400);
+      expect(body.errors[0].param).to.equal('pad-agreement');
+      expect(stripe.calls).to.be.empty;
+    });
+  });
+
+  describe('rejects', () => {
+    const invalid: Array<[string, Record<string, string>]> = [
+      ['a missing required field', { 'personal-phone': '' }],
+      ['a malformed email', { 'personal-email': 'jane.example.com' }],
+      ['a malformed phone number', { 'personal-phone': 'call me' }],
+      ['a malformed birthday', { birthday: '31/12/1990' }],
+      ['a malformed postal code', { 'mailing-postal-code': '#94043' }],
+      ['an unknown option', { 'have-reports': 'maybe' }],
+      ['an unsupported currency', { currency: 'eur' }],
+      ['an overlong value', { team: 'x'.repeat(101) }],
+      ['a missing FTE field from an FTE', { 'site-code': '' }],
+    ];
+    for (const [description, fields] of invalid) {
+      it(description, async () => {
+        const { status, body } = await submit(stripe, fields);
+
+        expect(status).to.equal(400);
+        expect(body.errors).to.have.lengthOf(1);
+        expect(body.errors[0].param).to.equal(Object.keys(fields)[0]);
+        expect(stripe.calls).to.be.empty;
+      });
+    }
+
+    it('every invalid field at once', async () => {
+      const { status, body } = await submit(stripe, {
+        'personal-email': '',
+        'personal-phone': 'call me',
+        'total-compensation': '5000',
+      });
+
+      expect(status).to.equal(400);
+      expect(
+        body.errors.map(({ param }: { param: string }) => param),
+      ).to.deep.equal([
+        'personal-email',
+        'personal-phone',
+        'total-compensation',
+      ]);
+    });
+
+    it('nothing from a vendor employee without FTE fields', async () => {
+      const { status } = await submit(stripe, {
+        'employment-type': 'v',
+        'site-code': '',
+        org: '',
+        team: '',
+      });
+
+      expect(status).to.equal(200);
+    });
+  });
+
+  describe('with an existing customer', () => {
+    it('rejects members who already have a membership', async () => {
+      stripe.addCustomer('jane@example.com', 'active');
+
+      const { status, body } = await submit(stripe);
+
+      expect(status).to.equal(409);
+      expect(body.error.type).to.equal('duplicate-member');
+      expect(stripe.calls).not.to.include('customers.create');
+      expect(stripe.invoiceItems.size).to.equal(0);
+      const loginRequest = fetchRequests.find(
+        (request) => request.url === 'https://login.example.com/api/login-link',
+      );
+      expect(loginRequest?.headers.get('Authorization')).to.equal(
+        'Bearer login-link-api-key',
+      );
+      expect(await loginRequest?.formData()).to.satisfy(
+        (body: FormData) => body.get('email') === 'jane@example.com',
+      );
+    });
+
+    it('reactivates former members with their customer record', async () => {
+      const formerMember = stripe.addCustomer('jane@example.com', 'canceled');
+
+      const { status, body } = await submit(stripe);
+
+      expect(status).to.equal(200);
+      expect(body.reactivated).to.equal(true);
+      expect(stripe.customers.size).to.equal(1);
+      expect(stripe.customers.get(formerMember.id)?.name).to.equal('Jane Doe');
+      const subscriptions = [...stripe.subscriptions.values()];
+      expect(subscriptions.map(({ status }) => status)).to.deep.equal([
+        'canceled',
+        'active',
+      ]);
+    });
+  });
+
+  describe('when a submission is retried', () => {
+    const fields = { 'submission-id': 'submission_1' };
+
+    it('returns the original subscription', async () => {
+      const first = await submit(stripe, fields);
+      const retry = await submit(stripe, fields);
+
+      expect(retry.status).to.equal(200);
+      expect(retry.body.subscription_client_secret).to.equal(
+        first.body.subscription_client_secret,
+      );
+      expect(stripe.customers.size).to.equal(1);
+      expect(stripe.subscriptions.size).to.equal(1);
+      expect(stripe.invoiceItems.size).to.equal(1);
+    });
+
+    it('creates one of everything when both attempts overlap', async () => {
+      const [first, retry] = await Promise.all([
+        submit(stripe, fields),
+        submit(stripe, fields),
+      ]);
+
+      expect(retry.body.subscription_client_secret).to.equal(
+        first.body.subscription_client_secret,
+      );
+      expect(stripe.customers.size).to.equal(1);
+      expect(stripe.subscriptions.size).to.equal(1);
+      expect(stripe.invoiceItems.size).to.equal(1);
+      expect(fetchRequests).to.have.lengthOf(1);
+    });
+
+    describe('after its first attempt was rolled back', () => {
+      beforeEach(() => {
+        stripe.failOn('subscriptions.update', 1);
+      });
+
+      function liveSubscriptions() {
+        return [...stripe.subscriptions.values()].filter(
+          (subscription) => subscription.status !== 'canceled',
+        );
+      }
+
+      it('fails again for a new member, until the form sends a new submission', async () => {
+        expect((await submit(stripe, fields)).status).to.equal(400);
+
+        const retry = await submit(stripe, fields);
+
+        expect(retry.status).to.equal(400);
+        expect(retry.body.error.type).to.equal('signup-failed');
+        expect(liveSubscriptions()).to.be.empty;
+        const next = await submit(stripe, { 'submission-id': 'submission_2' });
+        expect(next.status).to.equal(200);
+        const [subscription] = liveSubscriptions();
+        expect(stripe.customers.has(subscription.customer as string)).to.equal(
+          true,
+        );
+      });
+
+      it('fails again for a former member, until the form sends a new submission', async () => {
+        const formerMember = stripe.addCustomer('jane@example.com', 'canceled');
+        expect((await submit(stripe, fields)).status).to.equal(400);
+
+        const retry = await submit(stripe, fields);
+
+        expect(retry.status).to.equal(400);
+        expect(liveSubscriptions()).to.be.empty;
+        expect(
+          stripe.customers.get(formerMember.id)?.metadata['site-code'],
+        ).to.equal('');
+        const next = await submit(stripe, { 'submission-id': 'submission_2' });
+        expect(next.status).to.equal(200);
+        expect(next.body.reactivated).to.equal(true);
+        const [subscription] = liveSubscriptions();
+        expect(subscription.customer).to.equal(formerMember.id);
+        expect(
+          stripe.customers.get(formerMember.id)?.metadata['submission-id'],
+        ).to.equal('submission_2');
+      });
+    });
+
+    it("succeeds after rolling back a former member's details failed", async () => {
+      const formerMember = stripe.addCustomer('jane@example.com', 'canceled');
+      stripe.failOn('invoiceItems.create', 1);
+      expect((await submit(stripe, fields)).status).to.equal(400);
+      // As if the former member's details were never put back.
+      stripe.customers.get(formerMember.id)!.metadata['submission-id'] =
+        'submission_1';
+
+      const retry = await submit(stripe, fields);
+
+      expect(retry.status).to.equal(200);
+    });
+
+    it('still rejects a different submission', async () => {
+      await submit(stripe, fields);
+
+      const { status } = await submit(stripe, {
+        'submission-id': 'submission_2',
+      });
+
+      expect(status).to.equal(409);
+    });
+  });
+
+  describe('rolls back completed steps when', () => {
+    const steps = [
+      'customers.create',
+      'invoiceItems.create',
+      'subscriptions.create',
+      'subscriptions.update',
+    ] as const;
+    for (const step of steps) {
+      it(`${step} fails`, async () => {
+        stripe.failOn(step);
+
+        const { status, body } = await submit(stripe);
+
+        expect(status).to.equal(400);
+        expect(body.error.type).to.equal('signup-failed');
+        expect(stripe.customers.size).to.equal(0);
+        expect(stripe.invoiceItems.size).to.equal(0);
+        for (const subscription of stripe.subscriptions.values()) {
+          expect(subscription.status).to.equal('canceled');
+        }
+        expect(fetchRequests).to.be.empty;
+      });
+    }
+
+    it('a former member rejoining fails', async () => {
+      const formerMember = stripe.addCustomer('jane@example.com', 'canceled');
+      stripe.failOn('subscriptions.create');
+
+      const { status } = await submit(stripe);
+
+      expect(status).to.equal(400);
+      const customer = stripe.customers.get(formerMember.id);
+      expect(customer?.name).to.equal('');
+      expect(customer?.metadata['site-code']).to.equal('');
+      expect(stripe.invoiceItems.size).to.equal(0);
+    });
+  });
+
+  describe('protects against abuse', () => {
+    it('by rate limiting submissions for an email address', async () => {
+      const counters = new MemoryCounterStore();
+      const statuses = [];
+      for (let i = 0; i < 6; i++) {
+        const fields = { 'submission-id': `submission-${i}` };
+        statuses.push((await submit(stripe, fields, { counters })).status);
+      }
+
+      expect(statuses).to.deep.equal([200, 409, 409, 409, 409, 429]);
+      expect(stripe.customers.size).to.equal(1);
+    });
+
+    it('by requiring a challenge to be solved, if configured', async () => {
+      const protection = {
+        counters: new MemoryCounterStore(),
+        challengeSecretKey: 'turnstile-secret',
+      };
+
+      const { status, body } = await submit(stripe, {}, protection);
+
+      expect(status).to.equal(403);
+      expect(body.error.type).to.equal('challenge-failed');
+      expect(stripe.customers.size).to.equal(0);
+    });
+
+    it('by verifying solved challenges with Turnstile', async () => {
+      const fetch = global.fetch;
+      global.fetch = async (input: RequestInfo, init?: RequestInit) => {
+        const request = new Request(input, init);
+        fetchRequests.push(request);
+        return new Response(
+          request.url.includes('turnstile') ? '{"success":true}' : '{}',
+        );
+      };
+      try {
+        const { status } = await submit(
+          stripe,
+          { 'cf-turnstile-response': 'solved' },
+          {
+            counters: new MemoryCounterStore(),
+            challengeSecretKey: 'turnstile-secret',
+          },
+        );
+
+        expect(status).to.equal(200);
+        const body = await fetchRequests[0].formData();
+        expect(body.get('response')).to.equal('solved');
+        expect(body.get('remoteip')).to.equal('192.0.2.1');
+      } finally {
+        global.fetch = fetch;
+      }
     });
   });
 });
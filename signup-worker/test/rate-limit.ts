@@ -0,0 +1,73 @@
+import { describe, it } from 'mocha';
+import { expect } from 'chai';
+import {
+  isRateLimited,
+  KvCounterStore,
+  MemoryCounterStore,
+} from '../../common/rate-limit';
+
+const HOUR = 60 * 60;
+
+describe('isRateLimited', () => {
+  const subject = (key?: string) => ({
+    key,
+    rateLimit: { limit: 2, windowSeconds: HOUR },
+  });
+
+  it('allows requests up to the limit in each window', async () => {
+    const store = new MemoryCounterStore();
+    const now = Date.UTC(2024, 0, 1);
+    const results = [];
+    for (let i = 0; i < 3; i++) {
+      results.push(await isRateLimited(store, [subject('ip:1')], now));
+    }
+    results.push(
+      await isRateLimited(store, [subject('ip:1')], now + HOUR * 1000),
+    );
+
+    expect(results).to.deep.equal([false, false, true, false]);
+  });
+
+  it('is limited if any subject is over its limit', async () => {
+    const store = new MemoryCounterStore();
+    await isRateLimited(store, [subject('email:a')]);
+    await isRateLimited(store, [subject('email:a')]);
+
+    expect(await isRateLimited(store, [subject('ip:1'), subject('email:a')])).to
+      .be.true;
+    expect(await isRateLimited(store, [subject('ip:1'), subject('email:b')])).to
+      .be.false;
+  });
+
+  it("doesn't limit subjects without a key", async () => {
+    const store = new MemoryCounterStore();
+    for (let i = 0; i < 3; i++) {
+      await isRateLimited(store, [subject(undefined)]);
+    }
+
+    expect(await isRateLimited(store, [subject(undefined)])).to.be.false;
+  });
+});
+
+describe('KvCounterStore', () => {
+  it('keeps counts for at least the minute KV needs', async () => {
+    const puts: { key: string; value: string; expirationTtl: number }[] = [];
+    const values = new Map<string, string>();
+    const store = new KvCounterStore({
+      get: async (key) => values.get(key) ?? null,
+      put: async (key, value, { expirationTtl }) => {
+        values.set(key, value);
+        puts.push({ key, value, expirationTtl });
+      },
+    });
+
+    await store.increment('ip:1', 10);
+    const count = await store.increment('ip:1', HOUR);
+
+    expect(count).to.equal(2);
+    expect(puts.map(({ expirationTtl }) => expirationTtl)).to.deep.equal([
+      60,
+      HOUR,
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, beforeEach } from 'mocha';
+import { expect } from 'chai';
+import Stripe from 'stripe';
+import { followUpIncompleteSetups } from '../src/setup-follow-up';
+import { fetchRequests } from './_setup';
+import { FakeStripe } from './fake-stripe';
+import { submit } from './signup-request';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('followUpIncompleteSetups', () => {
+  let stripe: FakeStripe;
+  let subscription: Stripe.Subscription;
+  const signedUp = new Date('2024-03-01T12:00:00Z');
+
+  function daysLater(days: number): Date {
+    return new Date(signedUp.getTime() + days * DAY_MS);
+  }
+
+  function remindersSent(): number {
+    return fetchRequests.filter(
+      (request) => request.url === 'https://api.sendgrid.com/v3/mail/send',
+    ).length;
+  }
+
+  beforeEach(async () => {
+    stripe = new FakeStripe();
+    await submit(stripe);
+    subscription = [...stripe.subscriptions.values()][0];
+    subscription.created = signedUp.getTime() / 1000;
+    fetchRequests.length = 0;
+  });
+
+  it('leaves recent applications alone', async () => {
+    const report = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(2),
+    );
+
+    expect(report.reminded).to.be.empty;
+    expect(remindersSent()).to.equal(0);
+  });
+
+  it('reminds applicants once', async () => {
+    const first = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(3),
+    );
+    const second = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(4),
+    );
+
+    expect(first.reminded).to.deep.equal([subscription.id]);
+    expect(second.reminded).to.be.empty;
+    expect(remindersSent()).to.equal(1);
+    expect(subscription.metadata['setup-reminder-sent-at']).to.equal(
+      daysLater(3).toISOString(),
+    );
+  });
+
+  it('cancels applications after the grace period', async () => {
+    await followUpIncompleteSetups(stripe.asStripe(), daysLater(3));
+    const early = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(16),
+    );
+    const report = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(17),
+    );
+
+    expect(early.canceled).to.be.empty;
+    expect(report.canceled).to.deep.equal([subscription.id]);
+    expect(subscription.status).to.equal('canceled');
+    expect(stripe.invoiceItems.size).to.equal(0);
+  });
+
+  it('leaves applicants who finished setup alone', async () => {
+    const customer = stripe.customers.get(subscription.customer as string)!;
+    customer.metadata['membership-status'] = 'pending-approval';
+
+    const report = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(30),
+    );
+
+    expect(report).to.deep.equal({ reminded: [], canceled: [], failed: [] });
+  });
+
+  it('reports failures and retries them on the next run', async () => {
+    stripe.failOn('subscriptions.update', 1);
+
+    const report = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(3),
+    );
+
+    expect(report.failed).to.deep.equal([subscription.id]);
+    expect(subscription.metadata['setup-reminder-sent-at']).to.be.undefined;
+
+    const retry = await followUpIncompleteSetups(
+      stripe.asStripe(),
+      daysLater(4),
+    );
+
+    expect(retry).to.deep.equal({
+      reminded: [subscription.id],
+      canceled: [],
+      failed: [],
+    });
+    expect(subscription.metadata['setup-reminder-sent-at']).to.equal(
+      daysLater(4).toISOString(),
+    );
+  });
+});
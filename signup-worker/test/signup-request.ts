@@ -0,0 +1,56 @@
+import { MemoryCounterStore } from '../../common/rate-limit';
+import { AbuseProtection, handleRequest } from '../src/handler';
+import { FakeStripe } from './fake-stripe';
+
+// A complete and valid submission of the join form.
+export const VALID_FIELDS: Record<string, string> = {
+  'employment-type': 'fte',
+  signature: 'Jane Doe',
+  'preferred-name': 'Jane Doe',
+  'personal-email': 'jane@example.com',
+  'personal-phone': '555-555-5555',
+  'mailing-address-1': '1 Main St',
+  'mailing-city': 'Mountain View',
+  'mailing-region': 'California',
+  'mailing-postal-code': '94043',
+  'mailing-country': 'United States',
+  employer: 'Google',
+  'job-title': 'Engineer',
+  'have-reports': 'n',
+  'total-compensation': '120000',
+  'sms-consent': 'n',
+  'site-code': 'US-MTV',
+  org: 'Core',
+  team: 'Infra',
+  currency: 'usd',
+  'payment-method': 'us_bank_account',
+};
+
+export function signupRequest(fields: Record<string, string> = {}): Request {
+  const body = new FormData();
+  for (const [name, value] of Object.entries({ ...VALID_FIELDS, ...fields })) {
+    body.set(name, value);
+  }
+  return new Request('https://signup.example.com/', {
+    method: 'POST',
+    body,
+    headers: { 'CF-Connecting-IP': '192.0.2.1' },
+  });
+}
+
+/**
+ * @param protection By default, rate limits which haven't counted any earlier
+ *     submissions, and no challenge
+ */
+export async function submit(
+  stripe: FakeStripe,
+  fields?: Record<string, string>,
+  protection: AbuseProtection = { counters: new MemoryCounterStore() },
+): Promise<{ status: number; body: any }> {
+  const response = await handleRequest(
+    signupRequest(fields),
+    stripe.asStripe(),
+    protection,
+  );
+  return { status: response.status, body: await response.json() };
+}
@@ -0,0 +1,265 @@
+import { describe, it, beforeEach } from 'mocha';
+import { expect } from 'chai';
+import Stripe from 'stripe';
+import { handleStripeWebhook } from '../src/webhooks';
+import { FakeStripe } from './fake-stripe';
+import setupIntentSucceeded from './fixtures/setup_intent.succeeded.json';
+import setupIntentSetupFailed from './fixtures/setup_intent.setup_failed.json';
+import subscriptionUpdated from './fixtures/customer.subscription.updated.json';
+import invoicePaymentFailed from './fixtures/invoice.payment_failed.json';
+import subscriptionDeleted from './fixtures/customer.subscription.deleted.json';
+import customerUpdated from './fixtures/customer.updated.json';
+import { submit } from './signup-request';
+
+/**
+ * A webhook request for the fixture event, for the given customer, signed the
+ * way Stripe signs them.
+ */
+function webhookRequest(
+  fixture: object,
+  customerId: string,
+  secret = 'whsec_FAKE',
+): Request {
+  const payload = JSON.stringify(fixture).replace(/cus_FIXTURE/g, customerId);
+  return new Request('https://signup.example.com/webhooks/stripe', {
+    method: 'POST',
+    headers: {
+      'Stripe-Signature': Stripe.webhooks.generateTestHeaderString({
+        payload,
+        secret,
+      }),
+    },
+    body: payload,
+  });
+}
+
+describe('handleStripeWebhook', () => {
+  let stripe: FakeStripe;
+  let customerId: string;
+
+  function membershipStatus(): string | undefined {
+    return stripe.customers.get(customerId)?.metadata['membership-status'];
+  }
+
+  async function receive(...fixtures: object[]): Promise<Response[]> {
+    const responses = [];
+    for (const fixture of fixtures) {
+      responses.push(
+        await handleStripeWebhook(
+          webhookRequest(fixture, customerId),
+          stripe.asStripe(),
+        ),
+      );
+    }
+    return responses;
+  }
+
+  beforeEach(() => {
+    stripe = new FakeStripe();
+    customerId = stripe.addCustomer('jane@example.com').id;
+    stripe.customers.get(customerId)!.metadata['membership-status'] =
+      'payment-setup-incomplete';
+    stripe.addPaymentMethod('us_bank_account', 'pm_1OZbank');
+    stripe.addPaymentMethod('card', 'pm_1OZcard');
+  });
+
+  it('rejects events without a valid signature', async () => {
+    const response = await handleStripeWebhook(
+      webhookRequest(setupIntentSucceeded, customerId, 'whsec_WRONG'),
+      stripe.asStripe(),
+    );
+
+    expect(response.status).to.equal(400);
+    expect(membershipStatus()).to.equal('payment-setup-incomplete');
+  });
+
+  /**
+   * Give the customer the paused subscription the signup form creates.
+   */
+  async function awaitApproval(): Promise<void> {
+    const subscription = await stripe.asStripe().subscriptions.create({
+      customer: customerId,
+      items: [],
+      metadata: { 'submission-id': 'submission-1' },
+    });
+    await stripe.asStripe().subscriptions.update(subscription.id, {
+      pause_collection: { behavior: 'keep_as_draft' },
+    });
+  }
+
+  it('marks applications as pending when setup succeeds', async () => {
+    await awaitApproval();
+
+    const [response] = await receive(setupIntentSucceeded);
+
+    expect(response.status).to.equal(200);
+    expect(membershipStatus()).to.equal('pending-approval');
+  });
+
+  it('records when setup fails', async () => {
+    await receive(setupIntentSetupFailed);
+
+    expect(membershipStatus()).to.equal('payment-setup-failed');
+  });
+
+  it('activates members when their subscription is resumed', async () => {
+    await receive(setupIntentSucceeded, subscriptionUpdated);
+
+    expect(membershipStatus()).to.equal('active');
+  });
+
+  it('records failed dues payments', async () => {
+    await receive(setupIntentSucceeded, subscriptionUpdated);
+    await receive(invoicePaymentFailed);
+
+    expect(membershipStatus()).to.equal('in-arrears');
+  });
+
+  it('records canceled memberships', async () => {
+    await receive(subscriptionDeleted);
+
+    expect(membershipStatus()).to.equal('canceled');
+  });
+
+  it("doesn't send active members back to pending on a new setup", async () => {
+    await receive(setupIntentSucceeded, subscriptionUpdated);
+    await receive({
+      ...setupIntentSucceeded,
+      id: 'evt_later',
+      created: subscriptionUpdated.created + 1,
+    });
+
+    expect(membershipStatus()).to.equal('active');
+  });
+
+  it("doesn't send legacy members to pending when they update their card", async () => {
+    customerId = stripe.addCustomer('legacy@example.com', 'active').id;
+
+    const [response] = await receive(setupIntentSucceeded);
+
+    expect(response.status).to.equal(200);
+    expect(membershipStatus()).to.be.undefined;
+  });
+
+  it("doesn't mark customers as pending without a paused signup", async () => {
+    await receive(setupIntentSucceeded);
+
+    expect(membershipStatus()).to.equal('payment-setup-incomplete');
+  });
+
+  it('is unaffected by replayed events', async () => {
+    await receive(setupIntentSucceeded, subscriptionUpdated);
+    stripe.calls.length = 0;
+
+    const [response] = await receive(subscriptionUpdated);
+
+    expect(response.status).to.equal(200);
+    expect(stripe.calls).not.to.include('customers.update');
+    expect(membershipStatus()).to.equal('active');
+  });
+
+  it('ignores events older than the last status change', async () => {
+    await receive(subscriptionDeleted, invoicePaymentFailed);
+
+    expect(membershipStatus()).to.equal('canceled');
+  });
+
+  it('ignores other events', async () => {
+    const [response] = await receive({
+      ...setupIntentSucceeded,
+      type: 'customer.created',
+    });
+
+    expect(response.status).to.equal(200);
+    expect(membershipStatus()).to.equal('payment-setup-incomplete');
+  });
+
+  describe('keeps the card fee in step with the payment method', () => {
+    function cardFeeCents(): number | null | undefined {
+      const [subscription] = [...stripe.subscriptions.values()];
+      return subscription.items.data.find(
+        ({ price }) => price.product === 'prod_M2BZrfLu49i6Yi',
+      )?.price.unit_amount;
+    }
+
+    async function signUp(paymentMethod: string): Promise<void> {
+      await submit(stripe, {
+        'total-compensation': '120000',
+        'payment-method': paymentMethod,
+      });
+    }
+
+    it('removes it when a bank account is set up instead of a card', async () => {
+      await signUp('card');
+      expect(cardFeeCents()).to.equal(290);
+
+      await receive(setupIntentSucceeded);
+
+      expect(cardFeeCents()).to.be.undefined;
+    });
+
+    it('adds it when a card is set up instead of a bank account', async () => {
+      await signUp('us_bank_account');
+
+      await receive({
+        ...setupIntentSucceeded,
+        data: {
+          object: {
+            ...setupIntentSucceeded.data.object,
+            payment_method: 'pm_1OZcard',
+          },
+        },
+      });
+
+      expect(cardFeeCents()).to.equal(290);
+    });
+
+    it('follows changes to the default payment method', async () => {
+      await signUp('us_bank_account');
+      await receive(setupIntentSucceeded);
+      stripe.customers.get(
+        customerId,
+      )!.invoice_settings.default_payment_method = 'pm_1OZcard';
+
+      await receive(customerUpdated);
+
+      expect(cardFeeCents()).to.equal(290);
+    });
+
+    it("follows changes to the subscription's payment method", async () => {
+      await signUp('card');
+      const [subscription] = [...stripe.subscriptions.values()];
+      subscription.default_payment_method = 'pm_1OZbank';
+
+      await receive({
+        ...subscriptionUpdated,
+        data: {
+          ...subscriptionUpdated.data,
+          previous_attributes: { default_payment_method: 'pm_1OZcard' },
+        },
+      });
+
+      expect(cardFeeCents()).to.be.undefined;
+    });
+
+    it('leaves the subscription alone when nothing changed', async () => {
+      await signUp('card');
+      stripe.calls.length = 0;
+
+      await receive({
+        ...setupIntentSucceeded,
+        data: {
+          object: {
+            ...setupIntentSucceeded.data.object,
+            payment_method: 'pm_1OZcard',
+          },
+        },
+      });
+
+      expect(
+        stripe.calls.filter((call) => call.startsWith('subscriptionItems')),
+      ).to.be.empty;
+      expect(cardFeeCents()).to.equal(290);
+    });
+  });
+});